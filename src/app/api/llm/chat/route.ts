@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerProvider } from '@/lib/llm/server';
+import { LLMProvider } from '@/lib/llm/providers';
+import { LLMError } from '@/lib/llm/errors';
+
+export async function POST(request: NextRequest) {
+  let config, messages, systemPrompt, tools, responseFormat, sampling;
+  try {
+    ({ config, messages, systemPrompt, tools, responseFormat, sampling } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'The request body must be a JSON object' }, { status: 400 });
+  }
+  
+  if (!config?.provider || !config?.model || !Array.isArray(messages)) {
+    return NextResponse.json(
+      { error: 'Missing required fields: config.provider, config.model, messages' }, 
+      { status: 400 }
+    );
+  }
+
+  let provider: LLMProvider;
+  try {
+    provider = await createServerProvider(config);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create LLM provider', kind: error instanceof LLMError ? error.kind : undefined }, 
+      { status: error instanceof LLMError ? error.status || 400 : 400 }
+    );
+  }
+
+  try {
+    const response = await provider.completeTurn({
+      messages,
+      systemPrompt,
+      tools: tools || [],
+      responseFormat,
+      sampling,
+      signal: request.signal
+    });
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('LLM chat request failed:', error);
+    // Pass the upstream status and error kind through so the browser can retry, fail over or suggest a fix
+    const upstream = error instanceof LLMError ? error : undefined;
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'LLM request failed', kind: upstream?.kind, retryAfterMs: upstream?.retryAfterMs }, 
+      { status: upstream?.status || 500 }
+    );
+  }
+}
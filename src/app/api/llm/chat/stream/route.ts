@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerProvider } from '@/lib/llm/server';
+import { LLMProvider } from '@/lib/llm/providers';
+import { LLMError } from '@/lib/llm/errors';
+
+export async function POST(request: NextRequest) {
+  let config, messages, systemPrompt, tools, responseFormat, sampling;
+  try {
+    ({ config, messages, systemPrompt, tools, responseFormat, sampling } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'The request body must be a JSON object' }, { status: 400 });
+  }
+  
+  if (!config?.provider || !config?.model || !Array.isArray(messages)) {
+    return NextResponse.json(
+      { error: 'Missing required fields: config.provider, config.model, messages' }, 
+      { status: 400 }
+    );
+  }
+
+  let provider: LLMProvider;
+  try {
+    provider = await createServerProvider(config);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create LLM provider', kind: error instanceof LLMError ? error.kind : undefined }, 
+      { status: error instanceof LLMError ? error.status || 400 : 400 }
+    );
+  }
+
+  // Newline-delimited JSON: one LLMStreamDelta per line, or a final { type: 'error' } line
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const delta of provider.streamTurn({
+          messages,
+          systemPrompt,
+          tools: tools || [],
+          responseFormat,
+          sampling,
+          signal: request.signal
+        })) {
+          controller.enqueue(encoder.encode(JSON.stringify(delta) + '\n'));
+        }
+      } catch (error) {
+        if (!request.signal.aborted) {
+          console.error('LLM stream failed:', error);
+          controller.enqueue(encoder.encode(JSON.stringify({
+            type: 'error',
+            error: error instanceof Error ? error.message : 'LLM stream failed',
+            kind: error instanceof LLMError ? error.kind : undefined,
+            status: error instanceof LLMError ? error.status : undefined,
+            retryAfterMs: error instanceof LLMError ? error.retryAfterMs : undefined
+          }) + '\n'));
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client went away
+        }
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform'
+    }
+  });
+}
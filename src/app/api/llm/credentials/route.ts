@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServerCredentialStore } from '@/lib/llm/credentials';
+import { ProviderId } from '@/types';
+import { clearModelCache, isKnownProvider, normalizeBaseUrl, resolveBaseUrl, resolveProviderDescriptor } from '@/lib/llm/server';
+import { LLMConfig } from '@/types';
+
+const credentials = ServerCredentialStore.getInstance();
+
+// Reports which providers have a key; the keys themselves are never returned
+export async function GET() {
+  try {
+    const providers = await credentials.getStatus();
+    return NextResponse.json({ providers, canStoreKeys: credentials.canStoreKeys() });
+  } catch (error) {
+    console.error('Failed to get credential status:', error);
+    return NextResponse.json({ error: 'Failed to get credential status' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { provider, apiKey, baseUrl } = await request.json();
+    
+    if (!provider || !apiKey) {
+      return NextResponse.json(
+        { error: 'Missing required fields: provider, apiKey' }, 
+        { status: 400 }
+      );
+    }
+
+    const descriptor = await resolveProviderDescriptor(provider);
+    if (!descriptor) {
+      return NextResponse.json({ error: `Unsupported LLM provider: ${provider}` }, { status: 400 });
+    }
+
+    // A self-hosted provider's key is only ever sent to the endpoint it is saved for
+    const endpoint = descriptor.customBaseUrl ? resolveBaseUrl({ provider, baseUrl } as LLMConfig, descriptor) : undefined;
+    if (endpoint !== undefined && !/^https?:\/\/[^\s]+$/.test(endpoint)) {
+      return NextResponse.json({ error: 'The base URL must be an http(s) URL' }, { status: 400 });
+    }
+
+    if (!credentials.canStoreKeys()) {
+      return NextResponse.json(
+        { error: 'Saving API keys requires LLM_CREDENTIALS_SECRET to be set on the server' }, 
+        { status: 501 }
+      );
+    }
+
+    await credentials.setApiKey(provider, apiKey, endpoint && normalizeBaseUrl(endpoint));
+    clearModelCache(provider);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to save API key:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save API key' }, 
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const provider = url.searchParams.get('provider');
+    
+    if (!provider || !(await isKnownProvider(provider))) {
+      return NextResponse.json({ error: 'A known provider is required' }, { status: 400 });
+    }
+
+    await credentials.deleteApiKey(provider as ProviderId);
+    clearModelCache(provider);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete API key:', error);
+    return NextResponse.json({ error: 'Failed to delete API key' }, { status: 500 });
+  }
+}
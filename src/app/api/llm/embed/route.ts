@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerProvider } from '@/lib/llm/server';
+import { LLMError } from '@/lib/llm/errors';
+
+// The browser indexes history in batches; larger requests would hit provider limits (Gemini takes 100)
+const MAX_TEXTS_PER_REQUEST = 100;
+
+export async function POST(request: NextRequest) {
+  let config, texts;
+  try {
+    ({ config, texts } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'The request body must be a JSON object' }, { status: 400 });
+  }
+
+  try {
+    if (!config?.provider || !config?.model || !Array.isArray(texts)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: config.provider, config.model, texts' },
+        { status: 400 }
+      );
+    }
+
+    if (texts.length > MAX_TEXTS_PER_REQUEST || texts.some(text => typeof text !== 'string')) {
+      return NextResponse.json(
+        { error: `texts must be at most ${MAX_TEXTS_PER_REQUEST} strings` },
+        { status: 400 }
+      );
+    }
+
+    const provider = await createServerProvider(config);
+    const embeddings = await provider.embed(texts, request.signal);
+    return NextResponse.json({ embeddings });
+  } catch (error) {
+    console.error('Embedding request failed:', error);
+    const upstream = error instanceof LLMError ? error : undefined;
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Embedding request failed', kind: upstream?.kind, retryAfterMs: upstream?.retryAfterMs },
+      { status: upstream?.status || 500 }
+    );
+  }
+}
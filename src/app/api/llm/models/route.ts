@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listServerModels } from '@/lib/llm/server';
+import { getStaticModels } from '@/lib/llm/catalog';
+
+export async function POST(request: NextRequest) {
+  let config, refresh;
+  try {
+    ({ config, refresh } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'The request body must be a JSON object' }, { status: 400 });
+  }
+  
+  if (!config?.provider) {
+    return NextResponse.json(
+      { error: 'Missing required field: config.provider' }, 
+      { status: 400 }
+    );
+  }
+
+  try {
+    const models = await listServerModels(config, Boolean(refresh));
+    return NextResponse.json({ models, source: 'live' });
+  } catch (error) {
+    // Offline, no key yet, or the listing API changed: fall back to the bundled list
+    console.warn(`Model discovery failed for ${config.provider}, using static list:`, error);
+    return NextResponse.json({
+      models: getStaticModels(config.provider),
+      source: 'static',
+      error: error instanceof Error ? error.message : 'Model discovery failed'
+    });
+  }
+}
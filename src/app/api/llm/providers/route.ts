@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CustomProviderStore, parseCustomProvider } from '@/lib/llm/custom-providers';
+import { ServerCredentialStore } from '@/lib/llm/credentials';
+import { isCustomProviderId } from '@/lib/llm/registry';
+import { clearModelCache } from '@/lib/llm/server';
+
+const providers = CustomProviderStore.getInstance();
+
+// User-defined providers; built-in ones ship with the client bundle
+export async function GET() {
+  try {
+    return NextResponse.json({ providers: await providers.list() });
+  } catch (error) {
+    console.error('Failed to list custom providers:', error);
+    return NextResponse.json({ error: 'Failed to list custom providers' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let provider;
+  try {
+    provider = parseCustomProvider(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid provider definition' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const previous = await providers.save(provider);
+    // A key saved for one endpoint must not follow the provider to a different one
+    if (previous && previous.baseUrl !== provider.baseUrl) {
+      await ServerCredentialStore.getInstance().deleteApiKey(provider.id);
+    }
+    clearModelCache(provider.id);
+    return NextResponse.json({ provider });
+  } catch (error) {
+    console.error('Failed to save custom provider:', error);
+    return NextResponse.json({ error: 'Failed to save custom provider' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+
+    if (!id || !isCustomProviderId(id)) {
+      return NextResponse.json({ error: 'A custom provider id is required' }, { status: 400 });
+    }
+
+    await providers.delete(id);
+    await ServerCredentialStore.getInstance().deleteApiKey(id);
+    clearModelCache(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete custom provider:', error);
+    return NextResponse.json({ error: 'Failed to delete custom provider' }, { status: 500 });
+  }
+}
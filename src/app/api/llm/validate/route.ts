@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerProvider } from '@/lib/llm/server';
+import { LLMError } from '@/lib/llm/errors';
+
+export async function POST(request: NextRequest) {
+  let config;
+  try {
+    ({ config } = await request.json());
+  } catch {
+    return NextResponse.json({ valid: false, error: 'The request body must be a JSON object' }, { status: 400 });
+  }
+
+  try {
+    if (!config?.provider || !config?.model) {
+      return NextResponse.json(
+        { error: 'Missing required fields: config.provider, config.model' }, 
+        { status: 400 }
+      );
+    }
+
+    const provider = await createServerProvider(config);
+    await provider.checkAccess();
+    return NextResponse.json({ valid: true });
+  } catch (error) {
+    console.error('LLM validation failed:', error);
+    // The provider's own status and message, so a bad key is told apart from an unreachable server
+    const upstream = error instanceof LLMError ? error : undefined;
+    return NextResponse.json(
+      { valid: false, error: error instanceof Error ? error.message : 'Validation failed', kind: upstream?.kind }, 
+      { status: upstream?.status || 500 }
+    );
+  }
+}
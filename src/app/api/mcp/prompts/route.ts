@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServerSideMCPManager } from '@/lib/mcp/server-manager';
+
+const mcpManager = ServerSideMCPManager.getInstance();
+
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const serverId = url.searchParams.get('serverId');
+
+    if (!serverId) {
+      return NextResponse.json({ error: 'Server ID is required' }, { status: 400 });
+    }
+
+    const prompts = await mcpManager.listPrompts(serverId);
+    return NextResponse.json({ prompts });
+  } catch (error) {
+    console.error('Failed to get prompts:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get prompts' }, 
+      { status: 500 }
+    );
+  }
+}
+
+// Renders a prompt with the user's arguments into the messages it stands for
+export async function POST(request: NextRequest) {
+  try {
+    const { serverId, name, arguments: args } = await request.json();
+    
+    if (!serverId || !name) {
+      return NextResponse.json(
+        { error: 'Missing required fields: serverId, name' }, 
+        { status: 400 }
+      );
+    }
+
+    const prompt = await mcpManager.getPrompt(serverId, name, args || {});
+    return NextResponse.json(prompt);
+  } catch (error) {
+    console.error('Failed to get prompt:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get prompt' }, 
+      { status: 500 }
+    );
+  }
+}
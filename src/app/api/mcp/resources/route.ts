@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServerSideMCPManager } from '@/lib/mcp/server-manager';
+
+const mcpManager = ServerSideMCPManager.getInstance();
+
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const serverId = url.searchParams.get('serverId');
+
+    if (!serverId) {
+      return NextResponse.json({ error: 'Server ID is required' }, { status: 400 });
+    }
+
+    const resources = await mcpManager.listResources(serverId);
+    return NextResponse.json({ resources });
+  } catch (error) {
+    console.error('Failed to get resources:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get resources' }, 
+      { status: 500 }
+    );
+  }
+}
+
+// Reads a resource; POST because resource URIs can be long and contain anything
+export async function POST(request: NextRequest) {
+  try {
+    const { serverId, uri } = await request.json();
+    
+    if (!serverId || !uri) {
+      return NextResponse.json(
+        { error: 'Missing required fields: serverId, uri' }, 
+        { status: 400 }
+      );
+    }
+
+    const contents = await mcpManager.readResource(serverId, uri);
+    return NextResponse.json({ contents });
+  } catch (error) {
+    console.error('Failed to read resource:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read resource' }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ServerSideMCPManager } from '@/lib/mcp/server-manager';
+
+const mcpManager = ServerSideMCPManager.getInstance();
+
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const serverId = url.searchParams.get('serverId');
+
+    if (!serverId) {
+      return NextResponse.json({ error: 'Server ID is required' }, { status: 400 });
+    }
+
+    const resourceTemplates = await mcpManager.listResourceTemplates(serverId);
+    return NextResponse.json({ resourceTemplates });
+  } catch (error) {
+    console.error('Failed to get resource templates:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get resource templates' }, 
+      { status: 500 }
+    );
+  }
+}
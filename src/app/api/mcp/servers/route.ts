@@ -15,21 +15,30 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
-    const { id, name, command, args, env } = await request.json();
+    const { id, name, transport = 'stdio', command, args, env, url, headers } = await request.json();
     
-    if (!id || !name || !command) {
+    if (!id || !name) {
       return NextResponse.json(
-        { error: 'Missing required fields: id, name, command' }, 
+        { error: 'Missing required fields: id, name' }, 
         { status: 400 }
       );
     }
+    if (transport === 'stdio' && !command) {
+      return NextResponse.json({ error: 'Command is required for stdio transport' }, { status: 400 });
+    }
+    if (transport !== 'stdio' && !url) {
+      return NextResponse.json({ error: `URL is required for ${transport} transport` }, { status: 400 });
+    }
 
     await mcpManager.addServer({
       id,
       name,
+      transport,
       command,
       args: args || [],
-      env: env || {}
+      env: env || {},
+      url,
+      headers
     });
 
     return NextResponse.json({ success: true });
@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { ServerSideMCPManager } from '@/lib/mcp/server-manager';
+import { MCPServerHealth } from '@/types';
+
+const mcpManager = ServerSideMCPManager.getInstance();
+
+// Comment lines keep idle connections from being closed by proxies
+const KEEPALIVE_INTERVAL_MS = 25000;
+
+// Server-sent events: the current state of every server, then each status change as it happens.
+// EventSource reconnects by itself, and gets the full state again when it does.
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const sendHealth = (health: MCPServerHealth) => send(`data: ${JSON.stringify(health)}\n\n`);
+
+      mcpManager.getAllServers().forEach(sendHealth);
+      const unsubscribe = mcpManager.subscribe(sendHealth);
+      const keepalive = setInterval(() => send(': keepalive\n\n'), KEEPALIVE_INTERVAL_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(keepalive);
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client went away
+        }
+      };
+      request.signal.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
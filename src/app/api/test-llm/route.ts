@@ -1,4 +1,5 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { diagnoseProvider } from '@/lib/llm/diagnostics';
 
 export async function GET() {
   return NextResponse.json({ 
@@ -7,23 +8,23 @@ export async function GET() {
   });
 }
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
-    // Simple test message
-    const testResponse = "Hello! This is a test response from the LLM API.";
-    
-    return NextResponse.json({ 
-      success: true,
-      response: testResponse,
-      timestamp: new Date().toISOString()
-    });
+    const { config } = await request.json();
+
+    if (!config?.provider || !config?.model) {
+      return NextResponse.json(
+        { error: 'Missing required fields: config.provider, config.model' }, 
+        { status: 400 }
+      );
+    }
+
+    // Provider failures are part of the report; only an unusable request ends up below
+    return NextResponse.json(await diagnoseProvider(config));
   } catch (error) {
-    console.error('LLM test error:', error);
+    console.error('LLM diagnostics failed:', error);
     return NextResponse.json(
-      { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
-      }, 
+      { error: error instanceof Error ? error.message : 'Diagnostics failed' }, 
       { status: 500 }
     );
   }
@@ -2,7 +2,19 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { useAppStore } from '@/store';
-import { Message } from '@/types';
+import { ChatError, ContentPart, LLMConfig, LLMErrorKind, MCPPrompt, Message, ModelReply, SamplingParams, StructuredOutput, ToolInvocation } from '@/types';
+import { calculateCost, formatCost } from '@/lib/llm/catalog';
+import { checkResponseSchema, toResponseFormat } from '@/lib/llm/structured';
+import { AttachmentStore, createAttachmentPart } from '@/lib/memory/attachments';
+import { filterPrompts } from '@/lib/mcp/prompts';
+import JsonTree from './JsonTree';
+import ModelComparison, { ReplyStats } from './ModelComparison';
+import ComparisonTargets from './ComparisonTargets';
+import PromptPicker from './PromptPicker';
+import PromptArgumentsForm from './PromptArgumentsForm';
+import SamplingFields from '../ui/SamplingFields';
+
+type AttachmentPart = Extract<ContentPart, { type: 'image' | 'file' }>;
 
 const themes = {
   dark: {
@@ -245,11 +257,138 @@ const formatMessageContent = (content: string, isUser: boolean): JSX.Element =>
   return <div className="space-y-1">{formattedLines}</div>;
 };
 
-const MessageBubble: React.FC<{ message: Message; colors: Colors }> = ({ message, colors }) => {
+const ToolInvocationList: React.FC<{ invocations: ToolInvocation[] }> = ({ invocations }) => {
+  return (
+    <details className="mt-2 text-xs rounded-lg border border-gray-600 bg-gray-900 bg-opacity-40">
+      <summary className="cursor-pointer px-3 py-2 text-green-300 select-none">
+        🔧 Used {invocations.length} MCP tool{invocations.length === 1 ? '' : 's'}
+      </summary>
+      <div className="px-3 pb-3 space-y-2">
+        {invocations.map((invocation) => (
+          <div key={invocation.id} className="rounded border border-gray-700 p-2">
+            <div className="flex items-center gap-2 font-mono">
+              <span className={invocation.isError ? 'text-red-400' : 'text-green-400'}>
+                {invocation.isError ? '✖' : '✔'}
+              </span>
+              <span className="text-blue-300">{invocation.name}</span>
+            </div>
+            <pre className="mt-1 whitespace-pre-wrap break-all text-gray-400">
+              {JSON.stringify(invocation.arguments, null, 2)}
+            </pre>
+            <pre className="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap break-all text-gray-300">
+              {invocation.result}
+            </pre>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+};
+
+// Collapsed by default; only shown open while the model is still thinking
+const ReasoningSection: React.FC<{ reasoning: string; thinking: boolean }> = ({ reasoning, thinking }) => (
+  <details open={thinking} className="mb-2 text-xs rounded-lg border border-gray-600 bg-gray-900 bg-opacity-40">
+    <summary className="cursor-pointer px-3 py-2 text-purple-300 select-none">
+      💭 {thinking ? 'Thinking…' : 'Reasoning'}
+    </summary>
+    <div className="px-3 pb-3 max-h-64 overflow-y-auto whitespace-pre-wrap break-words opacity-80 italic">
+      {reasoning}
+    </div>
+  </details>
+);
+
+const AlternateReplies: React.FC<{ replies: ModelReply[] }> = ({ replies }) => (
+  <details className="mt-2 text-xs rounded-lg border border-gray-600 bg-gray-900 bg-opacity-40">
+    <summary className="cursor-pointer px-3 py-2 text-blue-300 select-none">
+      ⚖️ Picked over {replies.length} other model{replies.length === 1 ? '' : 's'}
+    </summary>
+    <div className="px-3 pb-3 space-y-2">
+      {replies.map(reply => (
+        <div key={reply.id} className="rounded border border-gray-700 p-2 space-y-1">
+          <div className="font-mono text-blue-300">{reply.provider}/{reply.model}</div>
+          <div className="max-h-40 overflow-y-auto whitespace-pre-wrap break-words text-gray-300">
+            {reply.error ? <span className="text-red-400">⚠️ {reply.error}</span> : reply.content}
+          </div>
+          <ReplyStats reply={reply} />
+        </div>
+      ))}
+    </div>
+  </details>
+);
+
+const StructuredOutputView: React.FC<{ output: StructuredOutput }> = ({ output }) => (
+  <div className="space-y-2">
+    <div className="text-xs opacity-70">
+      {output.errors.length === 0 ? '✔' : '⚠️'} JSON · {output.schemaName}
+    </div>
+    {output.data !== undefined && <JsonTree data={output.data} />}
+    {output.errors.length > 0 && (
+      <div className="text-xs text-amber-400">
+        <p>Still does not match the schema after one repair attempt:</p>
+        <ul className="list-disc ml-4">
+          {output.errors.map((error, index) => <li key={index}>{error}</li>)}
+        </ul>
+      </div>
+    )}
+  </div>
+);
+
+function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+// Loads an image attachment from IndexedDB into an object URL for display
+const AttachmentImage: React.FC<{ part: AttachmentPart; className?: string }> = ({ part, className }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    AttachmentStore.getInstance().get(part.attachmentId).then(blob => {
+      if (blob && !cancelled) {
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      }
+    }).catch(() => setUrl(null));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [part.attachmentId]);
+
+  if (!url) {
+    return <div className={`${className} flex items-center justify-center bg-black/20 text-xs`}>🖼️</div>;
+  }
+  return <img src={url} alt={part.name} className={`${className} object-cover`} />;
+};
+
+const AttachmentChip: React.FC<{ part: AttachmentPart; onRemove?: () => void }> = ({ part, onRemove }) => (
+  <div className="flex items-center gap-2 rounded-lg px-2 py-1 text-xs bg-black/20 max-w-[220px]" title={part.name}>
+    {part.type === 'image'
+      ? <AttachmentImage part={part} className="w-8 h-8 rounded" />
+      : <span>{part.mimeType === 'application/pdf' ? '📕' : '📄'}</span>}
+    <span className="truncate">{part.name}</span>
+    <span className="opacity-60 flex-shrink-0">{formatFileSize(part.size)}</span>
+    {onRemove && (
+      <button type="button" onClick={onRemove} className="opacity-60 hover:opacity-100" title="Remove attachment">
+        ✕
+      </button>
+    )}
+  </div>
+);
+
+function hasStreamedOutput(message: Message): boolean {
+  return Boolean(message.content || message.reasoning || message.toolInvocations?.length);
+}
+
+const MessageBubble: React.FC<{ message: Message; colors: Colors; streaming?: boolean; focused?: boolean }> = ({ message, colors, streaming = false, focused = false }) => {
   const isUser = message.role === 'user';
+  const messageCost = message.usage ? calculateCost(message.provider, message.model, message.usage) : undefined;
+  const attachments = (message.parts || []).filter((part): part is AttachmentPart => part.type !== 'text');
   
   return (
-    <div className={`flex items-start space-x-2 sm:space-x-3 ${
+    <div id={`message-${message.id}`} className={`flex items-start space-x-2 sm:space-x-3 ${
       isUser ? 'justify-end space-x-reverse' : 'justify-start'
     }`}>
       <div className="w-6 h-6 sm:w-8 sm:h-8 rounded-full overflow-hidden flex-shrink-0">
@@ -268,13 +407,41 @@ const MessageBubble: React.FC<{ message: Message; colors: Colors }> = ({ message
             isUser
               ? "bg-green-500 text-black rounded-br-sm"
               : "rounded-bl-sm"
-          }`}
+          } ${focused ? 'ring-2 ring-yellow-400' : ''}`}
           style={!isUser ? {
             backgroundColor: colors.bubble,
             color: colors.text
           } : {}}
         >
-          <div className="whitespace-pre-wrap">{formatMessageContent(message.content, isUser)}</div>
+          {attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-2">
+              {attachments.map(part => part.type === 'image' ? (
+                <AttachmentImage key={part.attachmentId} part={part} className="max-w-[240px] max-h-[240px] rounded-lg" />
+              ) : (
+                <AttachmentChip key={part.attachmentId} part={part} />
+              ))}
+            </div>
+          )}
+          {message.reasoning && (
+            <ReasoningSection reasoning={message.reasoning} thinking={streaming && !message.content} />
+          )}
+          {message.structured ? (
+            <>
+              {/* Unparseable replies are shown as-is next to the errors */}
+              {message.structured.data === undefined && message.content && (
+                <pre className="whitespace-pre-wrap break-all text-xs mb-2">{message.content}</pre>
+              )}
+              <StructuredOutputView output={message.structured} />
+            </>
+          ) : (
+            message.content && <div className="whitespace-pre-wrap">{formatMessageContent(message.content, isUser)}</div>
+          )}
+          {message.toolInvocations && message.toolInvocations.length > 0 && (
+            <ToolInvocationList invocations={message.toolInvocations} />
+          )}
+          {message.alternates && message.alternates.length > 0 && (
+            <AlternateReplies replies={message.alternates} />
+          )}
           <div className="flex items-center justify-between mt-2">
             {message.model && (
               <div className="text-xs opacity-70 flex items-center gap-1">
@@ -282,6 +449,26 @@ const MessageBubble: React.FC<{ message: Message; colors: Colors }> = ({ message
                 <span>{message.provider}/{message.model}</span>
               </div>
             )}
+            {message.usage && (
+              <div
+                className="text-xs opacity-70 flex items-center gap-1"
+                title={`${message.usage.promptTokens} prompt + ${message.usage.completionTokens} completion tokens${
+                  message.usage.cacheReadTokens ? `, ${message.usage.cacheReadTokens} read from cache` : ''
+                }${
+                  message.usage.cacheWriteTokens ? `, ${message.usage.cacheWriteTokens} written to cache` : ''
+                }`}
+              >
+                <span>🪙</span>
+                <span>{(message.usage.promptTokens + message.usage.completionTokens).toLocaleString()} tokens</span>
+                {messageCost !== undefined && <span>· {formatCost(messageCost)}</span>}
+                {Boolean(message.usage.cacheReadTokens || message.usage.cacheWriteTokens) && (
+                  <span>
+                    · ⚡ {(message.usage.cacheReadTokens || 0).toLocaleString()} cached
+                    {message.usage.cacheWriteTokens ? ` / ${message.usage.cacheWriteTokens.toLocaleString()} stored` : ''}
+                  </span>
+                )}
+              </div>
+            )}
             {!isUser && (
               <div className="text-xs opacity-70 flex items-center gap-1">
                 <span>🔧</span>
@@ -299,19 +486,177 @@ const ChatInput: React.FC<{ colors: Colors }> = ({ colors }) => {
   const [input, setInput] = useState('');
   const [useTools, setUseTools] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
-  const { sendMessage, isLoading, availableTools } = useAppStore();
+  const [attachments, setAttachments] = useState<AttachmentPart[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  // JSON Schema the next replies must follow; kept until JSON mode is turned off
+  const [jsonMode, setJsonMode] = useState(false);
+  const [schemaText, setSchemaText] = useState('');
+  // Models the next message is sent to side by side; empty when not comparing
+  const [compareTargets, setCompareTargets] = useState<LLMConfig[]>([]);
+  // Slash-command state: prompts are fetched each time the picker opens, so new server prompts show up
+  const [prompts, setPrompts] = useState<MCPPrompt[] | null>(null);
+  const [highlightedPrompt, setHighlightedPrompt] = useState(0);
+  const [pickerDismissed, setPickerDismissed] = useState(false);
+  const [activePrompt, setActivePrompt] = useState<MCPPrompt | null>(null);
+  const [promptError, setPromptError] = useState<string | null>(null);
+  const {
+    sendMessage, compareModels, comparison, config, isLoading, availableTools, streamingMessageId, stopGeneration,
+    queuedAttachments, takeQueuedAttachments, mcpServers, loadMCPPrompts, runMCPPrompt
+  } = useAppStore();
+  const isComparing = compareTargets.length > 0;
+  const hasMCPServers = mcpServers.some(server => server.isConnected);
+  const slashQuery = /^\/(\S*)$/.exec(input)?.[1];
+  const isPickerOpen = slashQuery !== undefined && hasMCPServers && !pickerDismissed && !activePrompt && !isComparing;
+  const matchingPrompts = prompts ? filterPrompts(prompts, slashQuery || '') : [];
+  const canStop = Boolean(streamingMessageId || (comparison && isLoading));
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const addFiles = async (files: File[]) => {
+    setAttachmentError(null);
+    for (const file of files) {
+      try {
+        const part = await createAttachmentPart(file);
+        setAttachments(prev => [...prev, part]);
+      } catch (error) {
+        setAttachmentError(error instanceof Error ? error.message : `Could not attach ${file.name}`);
+      }
+    }
+  };
+
+  // Resources attached from the sidebar join the files attached here
+  useEffect(() => {
+    if (queuedAttachments.length > 0) {
+      const parts = takeQueuedAttachments();
+      setAttachments(prev => [...prev, ...parts]);
+    }
+  }, [queuedAttachments, takeQueuedAttachments]);
+
+  useEffect(() => {
+    if (!isPickerOpen) {
+      setPrompts(null);
+      return;
+    }
+    let cancelled = false;
+    loadMCPPrompts()
+      .then(loaded => !cancelled && setPrompts(loaded))
+      .catch(error => {
+        if (cancelled) return;
+        setPrompts([]);
+        setPromptError(error instanceof Error ? error.message : 'Failed to load prompts');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isPickerOpen, loadMCPPrompts]);
+
+  const runPrompt = async (prompt: MCPPrompt, args: Record<string, string>) => {
+    setActivePrompt(null);
+    setInput('');
+    try {
+      await runMCPPrompt(prompt, args, useTools);
+    } catch (error) {
+      setPromptError(error instanceof Error ? error.message : `Failed to run /${prompt.name}`);
+    }
+  };
+
+  // Prompts without arguments run straight away; the others ask for them first
+  const selectPrompt = (prompt: MCPPrompt) => {
+    setPromptError(null);
+    if (prompt.arguments?.length) {
+      setActivePrompt(prompt);
+      setInput('');
+    } else {
+      runPrompt(prompt, {});
+    }
+  };
+
+  const handleInputChange = (value: string) => {
+    setInput(value);
+    setHighlightedPrompt(0);
+    if (!value.startsWith('/')) {
+      setPickerDismissed(false);
+      setPromptError(null);
+    }
+  };
+
+  const handlePickerKey = (e: React.KeyboardEvent): boolean => {
+    if (!isPickerOpen) return false;
+    if (e.key === 'Escape') {
+      setPickerDismissed(true);
+      return true;
+    }
+    // Enter while the prompts load would send the half-typed command as a message
+    if (prompts === null) return e.key === 'Enter';
+    if (matchingPrompts.length === 0) return false;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      const offset = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlightedPrompt(prev => (prev + offset + matchingPrompts.length) % matchingPrompts.length);
+      return true;
+    }
+    if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+      selectPrompt(matchingPrompts[Math.min(highlightedPrompt, matchingPrompts.length - 1)]);
+      return true;
+    }
+    return false;
+  };
+
+  const removeAttachment = (attachmentId: string) => {
+    setAttachments(prev => prev.filter(part => part.attachmentId !== attachmentId));
+    AttachmentStore.getInstance().deleteMany([attachmentId]).catch(() => {});
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
   
+  const schemaCheck = jsonMode && !isComparing ? checkResponseSchema(schemaText) : null;
+  const incompleteTargets = compareTargets.some(target => !target.model.trim());
+
+  const toggleCompare = () => {
+    if (isComparing) {
+      setCompareTargets([]);
+      return;
+    }
+    // Start from the configured model and its first fallback, or the same provider twice
+    const primary = config?.llm;
+    const second = config?.llmFallbacks?.[0];
+    setCompareTargets([
+      { provider: primary?.provider || 'openai', model: primary?.model || '', baseUrl: primary?.baseUrl },
+      second ? { provider: second.provider, model: second.model, baseUrl: second.baseUrl } : { provider: primary?.provider || 'openai', model: '' }
+    ]);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    if ((!input.trim() && attachments.length === 0) || isLoading || schemaCheck?.error || incompleteTargets) return;
     
     const message = input.trim();
+    const responseFormat = schemaCheck?.schema ? toResponseFormat(schemaCheck.schema) : undefined;
+    const pending = attachments;
     setInput('');
+    setAttachments([]);
+    setAttachmentError(null);
     
     try {
-      await sendMessage(message, useTools);
+      if (isComparing) {
+        await compareModels(message, compareTargets.map(target => ({ ...target, model: target.model.trim() })), pending);
+      } else {
+        await sendMessage(message, useTools, pending, responseFormat);
+      }
     } catch (error) {
+      // The error banner offers a retry, which resends the attachments too
       console.error('Failed to send message:', error);
     }
   };
@@ -337,23 +682,123 @@ const ChatInput: React.FC<{ colors: Colors }> = ({ colors }) => {
           </div>
         )}
         
+        {isComparing && (
+          <ComparisonTargets targets={compareTargets} onChange={setCompareTargets} colors={colors} />
+        )}
+
+        {jsonMode && !isComparing && (
+          <div className="mb-2">
+            <textarea
+              value={schemaText}
+              onChange={(e) => setSchemaText(e.target.value)}
+              placeholder='JSON Schema for the reply, e.g. {"type": "object", "properties": {"name": {"type": "string"}}, "required": ["name"]}'
+              rows={4}
+              className="w-full rounded-lg px-3 py-2 font-mono text-xs outline-none"
+              style={{ background: colors.input, color: colors.text, border: `1px solid ${colors.border}` }}
+            />
+            {schemaText.trim() && schemaCheck?.error && (
+              <span className="text-xs text-red-400">⚠️ {schemaCheck.error}</span>
+            )}
+          </div>
+        )}
+
+        {isPickerOpen && (
+          <PromptPicker
+            prompts={prompts ? matchingPrompts : null}
+            highlighted={Math.min(highlightedPrompt, Math.max(matchingPrompts.length - 1, 0))}
+            onSelect={selectPrompt}
+            colors={colors}
+          />
+        )}
+
+        {activePrompt && (
+          <PromptArgumentsForm
+            key={`${activePrompt.serverId}:${activePrompt.name}`}
+            prompt={activePrompt}
+            onRun={(args) => runPrompt(activePrompt, args)}
+            onCancel={() => setActivePrompt(null)}
+            colors={colors}
+          />
+        )}
+
+        {promptError && (
+          <div className="mb-2 text-xs text-red-400">⚠️ {promptError}</div>
+        )}
+
+        {(attachments.length > 0 || attachmentError) && (
+          <div className="flex flex-wrap items-center gap-2 mb-2" style={{ color: colors.text }}>
+            {attachments.map(part => (
+              <AttachmentChip key={part.attachmentId} part={part} onRemove={() => removeAttachment(part.attachmentId)} />
+            ))}
+            {attachmentError && <span className="text-xs text-red-400">⚠️ {attachmentError}</span>}
+          </div>
+        )}
+
         <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 sm:gap-3">
           <div
-            className="flex items-center border rounded-full px-3 sm:px-4 py-2 flex-1 min-h-[48px]"
+            className={`flex items-center border rounded-full px-3 sm:px-4 py-2 flex-1 min-h-[48px] ${isDragging ? 'ring-2 ring-green-500' : ''}`}
             style={{ background: colors.input, borderColor: colors.border }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
           >
-            <span className="text-gray-400 mr-2">🔍</span>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              title="Attach images, PDFs or text files"
+              className="text-gray-400 mr-2 hover:text-gray-200"
+              disabled={isLoading}
+            >
+              📎
+            </button>
+            <button
+              type="button"
+              onClick={() => setJsonMode(!jsonMode)}
+              title={jsonMode ? 'Turn off JSON output' : 'Ask for JSON matching a schema'}
+              className={`mr-2 font-mono text-sm ${jsonMode ? 'text-green-400' : 'text-gray-400 hover:text-gray-200'}`}
+              disabled={isLoading}
+            >
+              {'{ }'}
+            </button>
+            <button
+              type="button"
+              onClick={toggleCompare}
+              title={isComparing ? 'Stop comparing models' : 'Send the next message to several models side by side'}
+              className={`mr-2 text-sm ${isComparing ? 'opacity-100' : 'opacity-50 hover:opacity-80'}`}
+              disabled={isLoading}
+            >
+              ⚖️
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept="image/png,image/jpeg,image/webp,image/gif,application/pdf,text/*,.md,.json,.yaml,.yml,.csv,.ts,.tsx,.js,.py"
+              className="hidden"
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+            />
             <textarea
               ref={inputRef}
               value={input}
-              onChange={(e) => setInput(e.target.value)}
+              onChange={(e) => handleInputChange(e.target.value)}
+              onPaste={handlePaste}
               onKeyDown={(e) => {
+                if (handlePickerKey(e)) {
+                  e.preventDefault();
+                  return;
+                }
                 if (e.key === 'Enter' && !e.shiftKey) {
                   e.preventDefault();
                   handleSubmit(e);
                 }
               }}
-              placeholder="Type your message..."
+              placeholder={hasMCPServers ? 'Type your message, or / for MCP prompts...' : 'Type your message...'}
               rows={1}
               className="flex-1 resize-none bg-transparent outline-none px-2 py-1"
               style={{ color: colors.text }}
@@ -369,13 +814,24 @@ const ChatInput: React.FC<{ colors: Colors }> = ({ colors }) => {
               >
                 🎤
               </button>
-              <button
-                onClick={handleSubmit}
-                disabled={isLoading || !input.trim()}
-                className="w-10 h-10 sm:w-10 sm:h-10 flex items-center justify-center bg-green-500 text-black rounded-full hover:bg-green-600 disabled:opacity-50 text-sm sm:text-base"
-              >
-                ➤
-              </button>
+              {canStop ? (
+                <button
+                  type="button"
+                  onClick={stopGeneration}
+                  title="Stop generating"
+                  className="w-10 h-10 sm:w-10 sm:h-10 flex items-center justify-center bg-red-600 text-white rounded-full hover:bg-red-700 text-sm sm:text-base"
+                >
+                  ■
+                </button>
+              ) : (
+                <button
+                  onClick={handleSubmit}
+                  disabled={isLoading || (!input.trim() && attachments.length === 0) || Boolean(schemaCheck?.error) || incompleteTargets}
+                  className="w-10 h-10 sm:w-10 sm:h-10 flex items-center justify-center bg-green-500 text-black rounded-full hover:bg-green-600 disabled:opacity-50 text-sm sm:text-base"
+                >
+                  ➤
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -385,12 +841,18 @@ const ChatInput: React.FC<{ colors: Colors }> = ({ colors }) => {
 };
 
 const ChatMessages: React.FC<{ colors: Colors; theme?: string }> = ({ colors, theme = 'dark' }) => {
-  const { currentSession, isLoading } = useAppStore();
+  const { currentSession, isLoading, streamingMessageId, comparison, focusedMessageId } = useAppStore();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   
+  // Follows new messages, unless a search result asked for an earlier one
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [currentSession?.messages]);
+    const focused = focusedMessageId ? document.getElementById(`message-${focusedMessageId}`) : null;
+    if (focused) {
+      focused.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [currentSession?.messages, comparison?.replies, focusedMessageId]);
   
   if (!currentSession) {
     return (
@@ -488,10 +950,20 @@ const ChatMessages: React.FC<{ colors: Colors; theme?: string }> = ({ colors, th
           </div>
         ) : (
           <>
-            {currentSession.messages.map((message) => (
-              <MessageBubble key={message.id} message={message} colors={colors} />
-            ))}
-            {isLoading && (
+            {currentSession.messages
+              // The streaming placeholder stays hidden until its first delta arrives
+              .filter((message) => message.id !== streamingMessageId || hasStreamedOutput(message))
+              .map((message) => (
+                <MessageBubble
+                  key={message.id}
+                  message={message}
+                  colors={colors}
+                  streaming={message.id === streamingMessageId}
+                  focused={message.id === focusedMessageId}
+                />
+              ))}
+            <ModelComparison colors={colors} />
+            {isLoading && !comparison && !currentSession.messages.some((message) => message.id === streamingMessageId && hasStreamedOutput(message)) && (
               <div className="flex items-start space-x-3 justify-start animate-fade-in">
                 <div className="w-8 h-8 rounded-full overflow-hidden flex-shrink-0">
                   <img src="https://i.pravatar.cc/40?img=5" alt="AI Assistant" className="w-full h-full object-cover rounded-full" />
@@ -514,6 +986,46 @@ const ChatMessages: React.FC<{ colors: Colors; theme?: string }> = ({ colors, th
   );
 };
 
+// Per-chat overrides of the configured sampling settings, e.g. a low temperature for a coding chat
+const SessionSamplingPopover: React.FC<{ colors: Colors; onClose: () => void }> = ({ colors, onClose }) => {
+  const { currentSession, config, updateSessionSampling } = useAppStore();
+  const [draft, setDraft] = useState<SamplingParams>(currentSession?.sampling || {});
+
+  return (
+    <div
+      className="absolute right-0 top-full mt-2 z-30 w-[90vw] max-w-md rounded-lg p-4 shadow-lg space-y-3"
+      style={{ background: colors.main, border: `1px solid ${colors.border}`, color: colors.text }}
+    >
+      <div>
+        <h3 className="text-sm font-semibold">Sampling for this chat</h3>
+        <p className="text-xs opacity-70">Empty fields use the values from Settings.</p>
+      </div>
+      <SamplingFields value={draft} onChange={setDraft} inherited={config?.llm} colors={colors} />
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => {
+            updateSessionSampling({});
+            onClose();
+          }}
+          className="px-3 py-1 text-xs rounded border hover:opacity-80"
+          style={{ borderColor: colors.border }}
+        >
+          Reset
+        </button>
+        <button
+          onClick={() => {
+            updateSessionSampling(draft);
+            onClose();
+          }}
+          className="px-3 py-1 text-xs rounded bg-green-500 text-black hover:bg-green-600"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
+
 const ChatHeader: React.FC<{ colors: Colors; theme: string; onThemeChange: (theme: 'dark' | 'green' | 'light') => void; onOpenSettings?: () => void; onToggleSidebar?: () => void }> = ({ 
   colors, 
   theme, 
@@ -521,7 +1033,20 @@ const ChatHeader: React.FC<{ colors: Colors; theme: string; onThemeChange: (them
   onOpenSettings,
   onToggleSidebar
 }) => {
-  const { availableTools, mcpServers } = useAppStore();
+  const { availableTools, mcpServers, currentSession, contextInfo } = useAppStore();
+  const [showSampling, setShowSampling] = useState(false);
+  const samplingOverrides = Object.keys(currentSession?.sampling || {}).length;
+
+  // Session spend over the assistant messages that reported usage
+  const sessionUsage = (currentSession?.messages || []).reduce((totals, message) => {
+    if (!message.usage) return totals;
+    const cost = calculateCost(message.provider, message.model, message.usage);
+    return {
+      tokens: totals.tokens + message.usage.promptTokens + message.usage.completionTokens,
+      cost: totals.cost + (cost || 0),
+      priced: totals.priced || cost !== undefined
+    };
+  }, { tokens: 0, cost: 0, priced: false });
   
   return (
     <header
@@ -555,10 +1080,38 @@ const ChatHeader: React.FC<{ colors: Colors; theme: string; onThemeChange: (them
           <div className="flex items-center gap-2 sm:gap-4 text-xs" style={{ color: colors.text, opacity: 0.7 }}>
             <span>{mcpServers.length} MCP servers</span>
             <span>{availableTools.length} tools available</span>
+            {sessionUsage.tokens > 0 && (
+              <span title="Tokens and estimated cost for this chat">
+                🪙 {sessionUsage.tokens.toLocaleString()} tokens{sessionUsage.priced && ` · ${formatCost(sessionUsage.cost)}`}
+              </span>
+            )}
+            {contextInfo && (
+              <span
+                title={`Last request: ~${contextInfo.estimatedTokens.toLocaleString()} of ${contextInfo.contextWindow.toLocaleString()} context tokens, ${contextInfo.includedMessages} messages sent`}
+                className={contextInfo.truncatedMessages > 0 ? 'text-amber-400' : undefined}
+              >
+                📏 {Math.round((contextInfo.estimatedTokens / contextInfo.contextWindow) * 100)}% context
+                {contextInfo.truncatedMessages > 0 && ` · ${contextInfo.truncatedMessages} older message${contextInfo.truncatedMessages === 1 ? '' : 's'} left out`}
+              </span>
+            )}
           </div>
         </div>
       </div>
       <div className="flex items-center space-x-2 sm:space-x-3">
+        {currentSession && (
+          <div className="relative">
+            <button
+              onClick={() => setShowSampling(!showSampling)}
+              className={`px-2 py-1 text-xs rounded hover:bg-gray-600 ${samplingOverrides > 0 ? 'bg-green-700 text-white' : 'bg-gray-700 text-white'}`}
+              title={samplingOverrides > 0 ? `${samplingOverrides} sampling setting${samplingOverrides === 1 ? '' : 's'} overridden for this chat` : 'Sampling settings for this chat'}
+            >
+              🎛️{samplingOverrides > 0 && ` ${samplingOverrides}`}
+            </button>
+            {showSampling && (
+              <SessionSamplingPopover key={currentSession.id} colors={colors} onClose={() => setShowSampling(false)} />
+            )}
+          </div>
+        )}
         <button
           onClick={() => {
             const next = theme === "dark" ? "green" : theme === "green" ? "light" : "dark";
@@ -576,13 +1129,90 @@ const ChatHeader: React.FC<{ colors: Colors; theme: string; onThemeChange: (them
   );
 };
 
+type RemediationAction = 'retry' | 'settings' | 'trim';
+
+// What to tell the user for each kind of failure, and which fixes to offer
+const ERROR_REMEDIATION: Record<LLMErrorKind, { title: string; hint: string; actions: RemediationAction[] }> = {
+  auth: { title: 'API key rejected', hint: 'Re-enter the API key for this provider in Settings.', actions: ['settings', 'retry'] },
+  rate_limit: { title: 'Rate limited', hint: 'The provider is throttling requests. Wait a moment and retry, or add a fallback provider.', actions: ['retry', 'settings'] },
+  quota: { title: 'Quota exhausted', hint: 'This account is out of credits or over its quota. Check billing, or switch to another provider.', actions: ['settings'] },
+  context_length: { title: 'Conversation too long', hint: 'The conversation no longer fits the model\'s context window. Trim older messages and retry, or switch to a model with a larger window.', actions: ['trim', 'retry', 'settings'] },
+  content_filter: { title: 'Blocked by content filter', hint: 'The provider\'s safety filter blocked this response. Rephrase the message and try again.', actions: ['retry'] },
+  model_not_found: { title: 'Model not available', hint: 'The selected model does not exist or this key cannot use it. Switch model in Settings.', actions: ['settings'] },
+  network: { title: 'Connection failed', hint: 'Could not reach the server or provider. Check your connection, or that the local model server is running.', actions: ['retry'] },
+  timeout: { title: 'Request timed out', hint: 'The provider took too long to answer. Retry, or try a faster model.', actions: ['retry', 'settings'] },
+  invalid_request: { title: 'Request rejected', hint: 'The provider could not process this request.', actions: ['retry', 'settings'] },
+  server_error: { title: 'Provider error', hint: 'The provider is having problems. Retry in a moment or switch provider.', actions: ['retry', 'settings'] },
+  unknown: { title: 'Something went wrong', hint: 'The request failed.', actions: ['retry'] }
+};
+
+const ChatErrorBanner: React.FC<{ chatError: ChatError; onOpenSettings: () => void }> = ({ chatError, onOpenSettings }) => {
+  const { retryLastMessage, trimHistory, setError, isLoading } = useAppStore();
+  const remediation = ERROR_REMEDIATION[chatError.kind];
+
+  const actionButtons: Record<RemediationAction, React.ReactNode> = {
+    retry: (
+      <button
+        key="retry"
+        onClick={() => retryLastMessage().catch(() => {})}
+        disabled={isLoading}
+        className="px-3 py-1 rounded bg-red-600 text-white hover:bg-red-700 disabled:opacity-50 text-sm"
+      >
+        Retry
+      </button>
+    ),
+    settings: (
+      <button
+        key="settings"
+        onClick={onOpenSettings}
+        className="px-3 py-1 rounded border border-red-300 text-red-700 hover:bg-red-100 text-sm"
+      >
+        {chatError.kind === 'auth' ? 'Re-enter key' : 'Switch model'}
+      </button>
+    ),
+    trim: (
+      <button
+        key="trim"
+        onClick={trimHistory}
+        className="px-3 py-1 rounded border border-red-300 text-red-700 hover:bg-red-100 text-sm"
+      >
+        Trim history
+      </button>
+    )
+  };
+
+  return (
+    <div className="bg-red-50 border-b border-red-200 px-4 py-3">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-red-800 text-sm font-semibold">
+            ⚠️ {remediation.title}
+            {chatError.model && <span className="font-normal opacity-70"> · {chatError.provider}/{chatError.model}</span>}
+          </p>
+          <p className="text-red-800 text-sm">{remediation.hint}</p>
+          <p className="text-red-700 text-xs opacity-70 truncate" title={chatError.message}>{chatError.message}</p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {remediation.actions.map(action => actionButtons[action])}
+          <button
+            onClick={() => setError(null)}
+            className="text-red-600 hover:text-red-800 font-medium text-sm"
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
   theme = 'dark', 
   onThemeChange = () => {},
   onOpenSettings = () => {},
   onToggleSidebar = () => {}
 }) => {
-  const { error, setError } = useAppStore();
+  const { error, chatError, setError } = useAppStore();
   const colors = themes[theme];
   
   return (
@@ -596,7 +1226,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           onToggleSidebar={onToggleSidebar}
         />
         
-        {error && (
+        {chatError ? (
+          <ChatErrorBanner chatError={chatError} onOpenSettings={onOpenSettings} />
+        ) : error && (
           <div className="bg-red-50 border-b border-red-200 px-4 py-3">
             <div className="flex items-center justify-between">
               <p className="text-red-800 text-sm">{error}</p>
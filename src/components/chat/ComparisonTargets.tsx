@@ -0,0 +1,87 @@
+'use client';
+
+import React from 'react';
+import { LLMConfig, ProviderId } from '@/types';
+import { getProviderDescriptor, getProviders } from '@/lib/llm/registry';
+import { MAX_COMPARED_MODELS } from '@/store';
+import { Plus, X } from 'lucide-react';
+
+interface Colors {
+  input: string;
+  text: string;
+  border: string;
+}
+
+interface ComparisonTargetsProps {
+  targets: LLMConfig[];
+  onChange: (targets: LLMConfig[]) => void;
+  colors: Colors;
+}
+
+// Provider/model pairs a comparison message is sent to
+const ComparisonTargets: React.FC<ComparisonTargetsProps> = ({ targets, onChange, colors }) => {
+  const providers = getProviders();
+  const inputStyle = { background: colors.input, color: colors.text, border: `1px solid ${colors.border}` };
+
+  const updateTarget = (index: number, updates: Partial<LLMConfig>) => {
+    onChange(targets.map((target, i) => i === index ? { ...target, ...updates } : target));
+  };
+
+  return (
+    <div className="mb-2 space-y-2 text-sm" style={{ color: colors.text }}>
+      {targets.map((target, index) => (
+        <div key={index} className="flex gap-2">
+          <select
+            value={target.provider}
+            onChange={(e) => {
+              const provider = e.target.value as ProviderId;
+              updateTarget(index, { provider, model: getProviderDescriptor(provider)?.models[0] || '', baseUrl: undefined });
+            }}
+            className="rounded-lg px-2 py-1 outline-none"
+            style={inputStyle}
+          >
+            {providers.map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={target.model}
+            onChange={(e) => updateTarget(index, { model: e.target.value })}
+            list={`comparison-models-${index}`}
+            placeholder="Model name"
+            className="flex-1 min-w-0 rounded-lg px-2 py-1 outline-none"
+            style={inputStyle}
+          />
+          <datalist id={`comparison-models-${index}`}>
+            {(getProviderDescriptor(target.provider)?.models || []).map(model => <option key={model} value={model} />)}
+          </datalist>
+          <button
+            type="button"
+            onClick={() => onChange(targets.filter((_, i) => i !== index))}
+            disabled={targets.length <= 2}
+            title="Remove this model"
+            className="opacity-70 hover:opacity-100 disabled:opacity-30"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ))}
+      {targets.length < MAX_COMPARED_MODELS && (
+        <button
+          type="button"
+          onClick={() => onChange([...targets, { provider: targets[targets.length - 1]?.provider || 'openai', model: '' }])}
+          className="flex items-center gap-1 text-xs opacity-70 hover:opacity-100"
+        >
+          <Plus size={14} />
+          Add model
+        </button>
+      )}
+      <p className="text-xs opacity-60">
+        Each model gets the same conversation and sampling settings; tools and JSON mode are not used while comparing.
+      </p>
+    </div>
+  );
+};
+
+export default ComparisonTargets;
@@ -0,0 +1,94 @@
+'use client';
+
+import React, { useState } from 'react';
+
+interface JsonNodeProps {
+  name?: string;
+  value: unknown;
+  depth: number;
+}
+
+// Nested levels start collapsed so large extractions stay readable
+const OPEN_DEPTH = 2;
+
+const JsonValue: React.FC<{ value: unknown }> = ({ value }) => {
+  if (value === null) return <span className="text-gray-400">null</span>;
+  if (typeof value === 'string') return <span className="text-green-300 break-all">&quot;{value}&quot;</span>;
+  if (typeof value === 'number') return <span className="text-blue-300">{value}</span>;
+  if (typeof value === 'boolean') return <span className="text-purple-300">{String(value)}</span>;
+  return <span>{String(value)}</span>;
+};
+
+const JsonNode: React.FC<JsonNodeProps> = ({ name, value, depth }) => {
+  const label = name !== undefined && <span className="text-yellow-200">{name}: </span>;
+
+  if (!value || typeof value !== 'object') {
+    return (
+      <div className="pl-4">
+        {label}
+        <JsonValue value={value} />
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item] as const)
+    : Object.entries(value);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+
+  if (entries.length === 0) {
+    return (
+      <div className="pl-4">
+        {label}
+        <span className="text-gray-400">{open}{close}</span>
+      </div>
+    );
+  }
+
+  return (
+    <details open={depth < OPEN_DEPTH} className="pl-4">
+      <summary className="cursor-pointer select-none">
+        {label}
+        <span className="text-gray-400">
+          {open} {entries.length} {Array.isArray(value) ? 'item' : 'key'}{entries.length === 1 ? '' : 's'} {close}
+        </span>
+      </summary>
+      {entries.map(([key, item]) => (
+        <JsonNode key={key} name={key} value={item} depth={depth + 1} />
+      ))}
+    </details>
+  );
+};
+
+// Collapsible view of a JSON value with a button that copies it, pretty-printed
+const JsonTree: React.FC<{ data: unknown }> = ({ data }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(data, null, 2));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Failed to copy JSON:', error);
+    }
+  };
+
+  return (
+    <div className="relative rounded-lg border border-gray-600 bg-gray-900 bg-opacity-40 py-2 pr-3 font-mono text-xs">
+      <button
+        type="button"
+        onClick={copy}
+        className="absolute top-2 right-2 px-2 py-0.5 rounded border border-gray-600 opacity-70 hover:opacity-100"
+        title="Copy JSON"
+      >
+        {copied ? '✔ Copied' : '📋 Copy'}
+      </button>
+      <div className="-ml-2 overflow-x-auto">
+        <JsonNode value={data} depth={0} />
+      </div>
+    </div>
+  );
+};
+
+export default JsonTree;
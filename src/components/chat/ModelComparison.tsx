@@ -0,0 +1,90 @@
+'use client';
+
+import React from 'react';
+import { useAppStore } from '@/store';
+import { ModelReply } from '@/types';
+import { calculateCost, formatCost } from '@/lib/llm/catalog';
+
+interface Colors {
+  bubble: string;
+  text: string;
+  border: string;
+}
+
+function formatLatency(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+// Latency, tokens and cost of one reply, as shown under each column and on alternates
+export const ReplyStats: React.FC<{ reply: ModelReply }> = ({ reply }) => {
+  const cost = reply.usage ? calculateCost(reply.provider, reply.model, reply.usage) : undefined;
+  return (
+    <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs opacity-70">
+      {reply.latencyMs !== undefined && <span>⏱️ {formatLatency(reply.latencyMs)}</span>}
+      {reply.usage && (
+        <span title={`${reply.usage.promptTokens} prompt + ${reply.usage.completionTokens} completion tokens`}>
+          🪙 {(reply.usage.promptTokens + reply.usage.completionTokens).toLocaleString()} tokens
+        </span>
+      )}
+      {cost !== undefined && <span>💲 {formatCost(cost)}</span>}
+    </div>
+  );
+};
+
+// The pending comparison's answers in columns, each with a button to keep it as the reply
+const ModelComparison: React.FC<{ colors: Colors }> = ({ colors }) => {
+  const { comparison, currentSession, isLoading, pickComparisonWinner, discardComparison } = useAppStore();
+  if (!comparison || comparison.sessionId !== currentSession?.id) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs" style={{ color: colors.text }}>
+        <span className="opacity-70">
+          ⚖️ {isLoading ? `Asking ${comparison.replies.length} models…` : 'Pick the best answer to keep it in the conversation'}
+        </span>
+        <button onClick={discardComparison} disabled={isLoading} className="opacity-70 hover:opacity-100 disabled:opacity-30">
+          Discard
+        </button>
+      </div>
+      {/* The chat column is narrow, so three or four models wrap into a second row */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {comparison.replies.map(reply => (
+          <div
+            key={reply.id}
+            className="flex flex-col rounded-2xl p-3 shadow-md text-sm min-w-0"
+            style={{ backgroundColor: colors.bubble, color: colors.text, border: `1px solid ${colors.border}` }}
+          >
+            <div className="text-xs font-medium mb-2 truncate" title={`${reply.provider}/${reply.model}`}>
+              🤖 {reply.provider}/{reply.model}
+            </div>
+            {reply.reasoning && (
+              <details className="mb-2 text-xs opacity-80">
+                <summary className="cursor-pointer text-purple-300 select-none">💭 Reasoning</summary>
+                <div className="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap break-words italic">{reply.reasoning}</div>
+              </details>
+            )}
+            <div className="flex-1 whitespace-pre-wrap break-words max-h-96 overflow-y-auto">
+              {reply.error ? (
+                <span className="text-red-400">⚠️ {reply.error}</span>
+              ) : (
+                reply.content || <span className="opacity-50">{isLoading ? 'Waiting for the first tokens…' : 'No answer'}</span>
+              )}
+            </div>
+            <div className="mt-3 flex items-center justify-between gap-2">
+              <ReplyStats reply={reply} />
+              <button
+                onClick={() => pickComparisonWinner(reply.id)}
+                disabled={isLoading || Boolean(reply.error) || !reply.content}
+                className="px-3 py-1 text-xs rounded bg-green-500 text-black hover:bg-green-600 disabled:opacity-40 flex-shrink-0"
+              >
+                Pick
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ModelComparison;
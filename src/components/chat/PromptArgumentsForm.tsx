@@ -0,0 +1,78 @@
+'use client';
+
+import React, { useState } from 'react';
+import { MCPPrompt } from '@/types';
+import { X } from 'lucide-react';
+
+interface Colors {
+  bubble: string;
+  input: string;
+  text: string;
+  border: string;
+}
+
+interface PromptArgumentsFormProps {
+  prompt: MCPPrompt;
+  onRun: (args: Record<string, string>) => void;
+  onCancel: () => void;
+  colors: Colors;
+}
+
+// Asks for a prompt's arguments before the server renders it; empty optional arguments are left out
+const PromptArgumentsForm: React.FC<PromptArgumentsFormProps> = ({ prompt, onRun, onCancel, colors }) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const promptArguments = prompt.arguments || [];
+  const isComplete = promptArguments.every(argument => !argument.required || values[argument.name]?.trim());
+  const inputStyle = { background: colors.input, color: colors.text, border: `1px solid ${colors.border}` };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isComplete) return;
+    onRun(Object.fromEntries(Object.entries(values).filter(([, value]) => value.trim())));
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mb-2 p-2 rounded-lg space-y-2 text-sm"
+      style={{ backgroundColor: `${colors.bubble}40`, color: colors.text, border: `1px solid ${colors.border}` }}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-mono font-medium">/{prompt.name}</span>
+        <button type="button" onClick={onCancel} className="opacity-60 hover:opacity-100" title="Cancel">
+          <X size={14} />
+        </button>
+      </div>
+      {prompt.description && <p className="text-xs opacity-70">{prompt.description}</p>}
+
+      {promptArguments.map((argument, index) => (
+        <label key={argument.name} className="block">
+          <span className="text-xs">
+            {argument.name}{argument.required && ' *'}
+            {argument.description && <span className="opacity-60"> · {argument.description}</span>}
+          </span>
+          <input
+            type="text"
+            value={values[argument.name] || ''}
+            onChange={(e) => setValues(prev => ({ ...prev, [argument.name]: e.target.value }))}
+            autoFocus={index === 0}
+            className="w-full rounded px-2 py-1 mt-1 outline-none"
+            style={inputStyle}
+          />
+        </label>
+      ))}
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={!isComplete}
+          className="px-3 py-1 bg-green-500 text-black rounded-lg hover:bg-green-600 disabled:opacity-50"
+        >
+          Run prompt
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PromptArgumentsForm;
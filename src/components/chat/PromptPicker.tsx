@@ -0,0 +1,57 @@
+'use client';
+
+import React from 'react';
+import { useAppStore } from '@/store';
+import { MCPPrompt } from '@/types';
+
+interface Colors {
+  bubble: string;
+  input: string;
+  text: string;
+  border: string;
+}
+
+interface PromptPickerProps {
+  // Null while the servers are still being asked
+  prompts: MCPPrompt[] | null;
+  highlighted: number;
+  onSelect: (prompt: MCPPrompt) => void;
+  colors: Colors;
+}
+
+// Slash-command autocomplete over the prompts of the connected MCP servers
+const PromptPicker: React.FC<PromptPickerProps> = ({ prompts, highlighted, onSelect, colors }) => {
+  const { mcpServers } = useAppStore();
+  const serverName = (serverId?: string) => mcpServers.find(server => server.id === serverId)?.name || serverId;
+
+  return (
+    <div
+      className="mb-2 rounded-lg overflow-hidden text-sm max-h-64 overflow-y-auto"
+      style={{ background: colors.input, color: colors.text, border: `1px solid ${colors.border}` }}
+    >
+      {prompts === null ? (
+        <div className="px-3 py-2 opacity-60">Loading prompts…</div>
+      ) : prompts.length === 0 ? (
+        <div className="px-3 py-2 opacity-60">No matching prompts on the connected MCP servers</div>
+      ) : (
+        prompts.map((prompt, index) => (
+          <button
+            key={`${prompt.serverId}:${prompt.name}`}
+            type="button"
+            // Keeps focus in the textarea so the keyboard keeps driving the picker
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(prompt)}
+            className="w-full text-left px-3 py-2 flex items-baseline gap-2"
+            style={{ backgroundColor: index === highlighted ? colors.bubble : 'transparent' }}
+          >
+            <span className="font-mono font-medium flex-shrink-0">/{prompt.name}</span>
+            <span className="truncate opacity-70 flex-1">{prompt.description || prompt.title}</span>
+            <span className="text-xs opacity-50 flex-shrink-0">{serverName(prompt.serverId)}</span>
+          </button>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default PromptPicker;
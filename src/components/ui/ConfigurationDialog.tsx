@@ -2,9 +2,17 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAppStore } from '@/store';
-import { LLMConfig, MCPServerConfig } from '@/types';
-import { LLMProviderFactory } from '@/lib/llm/providers';
-import { X, Key, Server, Plus, Trash2, Check, AlertCircle } from 'lucide-react';
+import { LLMConfig, MCPServerConfig, ProviderDescriptor, ProviderDiagnostics, ProviderId } from '@/types';
+import { getStaticModels } from '@/lib/llm/catalog';
+import { getProviders } from '@/lib/llm/registry';
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, pickSampling } from '@/lib/llm/base';
+import { CredentialStatus, discoverModels, fetchCredentialStatus, fetchCustomProviders, ModelListing, RemoteLLMProvider, runProviderDiagnostics, saveProviderApiKey } from '@/lib/llm/remote';
+import ModelPicker from './ModelPicker';
+import CustomProvidersSection from './CustomProvidersSection';
+import SamplingFields from './SamplingFields';
+import SemanticSearchSection from './SemanticSearchSection';
+import ProviderDiagnosticsReport from './ProviderDiagnosticsReport';
+import { X, Key, Server, Plus, Trash2, Check, AlertCircle, ChevronUp, ChevronDown } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 
 interface Colors {
@@ -25,64 +33,208 @@ const LLMConfigurationSection: React.FC<{ colors?: Colors }> = ({ colors }) => {
   const [llmConfig, setLLMConfig] = useState<LLMConfig>({
     provider: 'openai',
     model: 'gpt-4o',
-    apiKey: '',
     temperature: 0.7,
     maxTokens: 2000
   });
+  // The key typed here is sent once to the server and never kept in browser state or storage
+  const [apiKeyInput, setApiKeyInput] = useState('');
+  const [credentialStatus, setCredentialStatus] = useState<CredentialStatus | null>(null);
+  const [isSavingKey, setIsSavingKey] = useState(false);
+  const [keyError, setKeyError] = useState<string | null>(null);
   const [isTestingKey, setIsTestingKey] = useState(false);
   const [keyValid, setKeyValid] = useState<boolean | null>(null);
+  const [keyTestError, setKeyTestError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<ProviderDiagnostics | null>(null);
+  const [isDiagnosing, setIsDiagnosing] = useState(false);
+  const [diagnosticsError, setDiagnosticsError] = useState<string | null>(null);
+  const [modelListing, setModelListing] = useState<ModelListing | null>(null);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [modelError, setModelError] = useState<string | null>(null);
+  const [fallbacks, setFallbacks] = useState<LLMConfig[]>([]);
 
-  const providers = LLMProviderFactory.getAvailableProviders();
+  const [providers, setProviders] = useState<ProviderDescriptor[]>(getProviders);
 
   useEffect(() => {
     if (config?.llm) {
       setLLMConfig(config.llm);
+      setFallbacks(config.llmFallbacks || []);
     }
   }, [config]);
 
-  const handleProviderChange = (provider: 'openai' | 'anthropic' | 'gemini' | 'openrouter' | 'groq' | 'together' | 'huggingface') => {
+  useEffect(() => {
+    fetchCredentialStatus()
+      .then(setCredentialStatus)
+      .catch(error => console.error('Failed to load credential status:', error));
+    fetchCustomProviders()
+      .then(() => setProviders(getProviders()))
+      .catch(error => console.error('Failed to load custom providers:', error));
+  }, []);
+
+  // A saved or removed provider changes the registry, and possibly which keys exist
+  const handleCustomProvidersChange = () => {
+    setProviders(getProviders());
+    fetchCredentialStatus()
+      .then(setCredentialStatus)
+      .catch(error => console.error('Failed to load credential status:', error));
+  };
+
+  const keySource = credentialStatus?.providers[llmConfig.provider];
+  const currentProvider = providers.find(p => p.id === llmConfig.provider);
+  // Only providers like a local server take their base URL from the config
+  const isCompatible = Boolean(currentProvider?.customBaseUrl);
+  // Local endpoints work without a key; cloud providers need one on the server
+  const canUseProvider = Boolean(keySource) || currentProvider?.requiresApiKey === false;
+
+  const handleProviderChange = (provider: ProviderId) => {
     const providerData = providers.find(p => p.id === provider);
     setLLMConfig(prev => ({
       ...prev,
       provider,
       model: providerData?.models[0] || '',
-      apiKey: ''
+      baseUrl: providerData?.customBaseUrl ? providerData.baseUrl : undefined
     }));
+    setApiKeyInput('');
+    setKeyError(null);
     setKeyValid(null);
+    setDiagnostics(null);
+    setModelListing(null);
+    setModelError(null);
+  };
+
+  // Cloud providers list their models as soon as a key is available; self-hosted servers
+  // wait for the user to refresh, since the base URL may still be being typed
+  useEffect(() => {
+    if (isCompatible || !canUseProvider) return;
+
+    let cancelled = false;
+    setIsLoadingModels(true);
+    discoverModels({ provider: llmConfig.provider, model: '' })
+      .then(listing => !cancelled && setModelListing(listing))
+      .catch(error => !cancelled && setModelError(error instanceof Error ? error.message : 'Failed to load models'))
+      .finally(() => !cancelled && setIsLoadingModels(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [llmConfig.provider, isCompatible, canUseProvider]);
+
+  const refreshModels = async () => {
+    setIsLoadingModels(true);
+    setModelError(null);
+    try {
+      const listing = await discoverModels(llmConfig, true);
+      setModelListing(listing);
+      if (listing.models.length > 0 && !llmConfig.model) {
+        setLLMConfig(prev => ({ ...prev, model: listing.models[0].id }));
+      }
+    } catch (error) {
+      setModelError(error instanceof Error ? error.message : 'Failed to load models');
+    } finally {
+      setIsLoadingModels(false);
+    }
   };
 
   const handleApiKeyChange = (apiKey: string) => {
-    setLLMConfig(prev => ({ ...prev, apiKey }));
+    setApiKeyInput(apiKey);
+    setKeyError(null);
     setKeyValid(null);
   };
 
+  const saveApiKey = async () => {
+    if (!apiKeyInput.trim()) return;
+
+    setIsSavingKey(true);
+    try {
+      await saveProviderApiKey(llmConfig.provider, apiKeyInput.trim(), isCompatible ? llmConfig.baseUrl : undefined);
+      setApiKeyInput('');
+      setCredentialStatus(await fetchCredentialStatus());
+    } catch (error) {
+      setKeyError(error instanceof Error ? error.message : 'Failed to save API key');
+    } finally {
+      setIsSavingKey(false);
+    }
+  };
+
   const testApiKey = async () => {
-    if (!llmConfig.apiKey.trim()) return;
+    if (!canUseProvider) return;
 
     setIsTestingKey(true);
+    setKeyTestError(null);
     try {
-      await updateLLMConfig(llmConfig);
+      // A model listing or similar read-only call: checks the key without spending tokens
+      await new RemoteLLMProvider(llmConfig).checkAccess();
       setKeyValid(true);
     } catch (error) {
       setKeyValid(false);
+      setKeyTestError(error instanceof Error ? error.message : null);
     } finally {
       setIsTestingKey(false);
     }
   };
 
+  const diagnose = async () => {
+    setIsDiagnosing(true);
+    setDiagnosticsError(null);
+    try {
+      setDiagnostics(await runProviderDiagnostics(llmConfig));
+    } catch (error) {
+      setDiagnostics(null);
+      setDiagnosticsError(error instanceof Error ? error.message : 'Diagnostics failed');
+    } finally {
+      setIsDiagnosing(false);
+    }
+  };
+
+  const addFallback = () => {
+    // Default to the first other provider that can actually be used
+    const provider = providers.find(p =>
+      p.id !== llmConfig.provider && (credentialStatus?.providers[p.id] || p.requiresApiKey === false)
+    ) || providers[0];
+    setFallbacks(prev => [...prev, {
+      provider: provider.id,
+      model: provider.models[0] || '',
+      baseUrl: provider.customBaseUrl ? provider.baseUrl : undefined
+    }]);
+  };
+
+  const updateFallback = (index: number, updates: Partial<LLMConfig>) => {
+    setFallbacks(prev => prev.map((fallback, i) => i === index ? { ...fallback, ...updates } : fallback));
+  };
+
+  const moveFallback = (index: number, offset: -1 | 1) => {
+    setFallbacks(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeFallback = (index: number) => {
+    setFallbacks(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handleSave = async () => {
-    if (!llmConfig.apiKey.trim()) return;
+    if (!canUseProvider) return;
     
     try {
-      await updateLLMConfig(llmConfig);
+      // Fallbacks share the primary's sampling and thinking settings
+      await updateLLMConfig(llmConfig, fallbacks
+        .filter(fallback => fallback.model.trim())
+        .map(({ provider, model, baseUrl }) => ({
+          provider,
+          model,
+          baseUrl,
+          ...pickSampling(llmConfig),
+          thinkingBudget: llmConfig.thinkingBudget
+        })));
       setKeyValid(true);
     } catch (error) {
       setKeyValid(false);
     }
   };
 
-  const currentProvider = providers.find(p => p.id === llmConfig.provider);
-
   return (
     <div className="space-y-4">
       <h3 className="text-lg font-medium flex items-center gap-2" style={{ color: colors?.text || '#000000' }}>
@@ -97,7 +249,7 @@ const LLMConfigurationSection: React.FC<{ colors?: Colors }> = ({ colors }) => {
         </label>
         <select
           value={llmConfig.provider}
-          onChange={(e) => handleProviderChange(e.target.value as 'openai' | 'anthropic' | 'gemini' | 'openrouter' | 'groq' | 'together' | 'huggingface')}
+          onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
           className="w-full rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
           style={{
             background: colors?.input || '#f9fafb',
@@ -113,42 +265,70 @@ const LLMConfigurationSection: React.FC<{ colors?: Colors }> = ({ colors }) => {
         </select>
       </div>
 
+      {/* Base URL (OpenAI-compatible servers only) */}
+      {isCompatible && (
+        <div>
+          <label className="block text-sm font-medium mb-2" style={{ color: colors?.text || '#000000' }}>
+            Base URL
+          </label>
+          <input
+            type="url"
+            value={llmConfig.baseUrl || ''}
+            onChange={(e) => {
+              setLLMConfig(prev => ({ ...prev, baseUrl: e.target.value }));
+              setKeyValid(null);
+            }}
+            placeholder="http://localhost:11434/v1"
+            className="w-full rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            style={{
+              background: colors?.input || '#f9fafb',
+              color: colors?.text || '#000000',
+              border: `1px solid ${colors?.border || '#e5e7eb'}`
+            }}
+          />
+          <p className="text-xs mt-1" style={{ color: colors?.text || '#000000', opacity: 0.7 }}>
+            Ollama: http://localhost:11434/v1 · LM Studio: http://localhost:1234/v1 · llama.cpp / vLLM: http://localhost:8000/v1
+          </p>
+        </div>
+      )}
+
       {/* Model Selection */}
       <div>
         <label className="block text-sm font-medium mb-2" style={{ color: colors?.text || '#000000' }}>
           Model
         </label>
-        <select
+        <ModelPicker
+          models={modelListing?.models ?? getStaticModels(llmConfig.provider)}
           value={llmConfig.model}
-          onChange={(e) => setLLMConfig(prev => ({ ...prev, model: e.target.value }))}
-          className="w-full rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-          style={{
-            background: colors?.input || '#f9fafb',
-            color: colors?.text || '#000000',
-            border: `1px solid ${colors?.border || '#e5e7eb'}`
-          }}
-        >
-          {currentProvider?.models.map(model => (
-            <option key={model} value={model}>
-              {model}
-            </option>
-          ))}
-        </select>
+          onChange={(model) => setLLMConfig(prev => ({ ...prev, model }))}
+          onRefresh={refreshModels}
+          isLoading={isLoadingModels}
+          source={modelListing?.source}
+          error={modelListing?.error ?? modelError ?? undefined}
+          allowCustom={isCompatible || modelListing?.source !== 'live'}
+          colors={colors}
+        />
       </div>
 
       {/* API Key */}
       <div>
         <label className="block text-sm font-medium mb-2" style={{ color: colors?.text || '#000000' }}>
-          API Key
+          API Key{currentProvider?.requiresApiKey === false && ' (optional)'}
         </label>
         <div className="flex flex-col sm:flex-row gap-2">
           <div className="flex-1 relative">
             <input
               type="password"
-              value={llmConfig.apiKey}
+              value={apiKeyInput}
               onChange={(e) => handleApiKeyChange(e.target.value)}
-              placeholder={`Enter your ${currentProvider?.name} API key`}
-              className="w-full rounded-lg px-3 py-2 pr-10 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              disabled={keySource === 'env'}
+              placeholder={
+                keySource === 'env' ? 'Provided by the server environment' :
+                keySource === 'stored' ? 'Stored on the server (enter a new key to replace it)' :
+                `Enter your ${currentProvider?.name} API key`
+              }
+              autoComplete="off"
+              className="w-full rounded-lg px-3 py-2 pr-10 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
               style={{
                 background: colors?.input || '#f9fafb',
                 color: colors?.text || '#000000',
@@ -162,57 +342,245 @@ const LLMConfigurationSection: React.FC<{ colors?: Colors }> = ({ colors }) => {
               <AlertCircle size={16} className="absolute right-3 top-3 text-red-500" />
             )}
           </div>
+          {keySource !== 'env' && (
+            <button
+              onClick={saveApiKey}
+              disabled={!apiKeyInput.trim() || isSavingKey || credentialStatus?.canStoreKeys === false}
+              className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed w-full sm:w-auto min-h-[44px]"
+            >
+              {isSavingKey ? 'Saving...' : 'Save Key'}
+            </button>
+          )}
           <button
             onClick={testApiKey}
-            disabled={!llmConfig.apiKey.trim() || isTestingKey}
+            disabled={!canUseProvider || isTestingKey}
             className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed w-full sm:w-auto min-h-[44px]"
           >
             {isTestingKey ? 'Testing...' : 'Test'}
           </button>
+          <button
+            onClick={diagnose}
+            disabled={!llmConfig.model || isDiagnosing}
+            className="px-4 py-2 rounded-lg hover:opacity-80 disabled:opacity-50 disabled:cursor-not-allowed w-full sm:w-auto min-h-[44px]"
+            style={{ color: colors?.text || '#000000', border: `1px solid ${colors?.border || '#e5e7eb'}` }}
+          >
+            {isDiagnosing ? 'Diagnosing...' : 'Diagnose'}
+          </button>
         </div>
+        <p className="text-xs mt-1" style={{ color: colors?.text || '#000000', opacity: 0.7 }}>
+          {keySource === 'env' && 'Using the key from the server environment.'}
+          {keySource === 'stored' && 'A key is stored encrypted on the server.'}
+          {!keySource && currentProvider?.requiresApiKey === false && 'No key needed unless your server requires one.'}
+          {!keySource && currentProvider?.requiresApiKey !== false && (credentialStatus?.canStoreKeys === false
+            ? 'No key on the server. Set it in the server environment, or set LLM_CREDENTIALS_SECRET to save keys from here.'
+            : 'No key on the server yet. Keys are stored server-side and never kept in the browser.')}
+        </p>
+        {keyError && (
+          <p className="text-red-600 text-sm mt-1">{keyError}</p>
+        )}
         {keyValid === false && (
-          <p className="text-red-600 text-sm mt-1">Invalid API key or connection failed</p>
+          <p className="text-red-600 text-sm mt-1">{keyTestError || 'Invalid API key or connection failed'}</p>
         )}
         {keyValid === true && (
           <p className="text-green-600 text-sm mt-1">API key is valid!</p>
         )}
+        {diagnosticsError && (
+          <p className="text-red-600 text-sm mt-1">{diagnosticsError}</p>
+        )}
+        {diagnostics && (
+          <ProviderDiagnosticsReport report={diagnostics} colors={colors} />
+        )}
       </div>
 
-      {/* Advanced Settings */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Temperature
-          </label>
+      {/* Sampling Settings */}
+      <div>
+        <label className="block text-sm font-medium mb-2" style={{ color: colors?.text || '#000000' }}>
+          Sampling
+        </label>
+        <p className="text-xs mb-2" style={{ color: colors?.text || '#000000', opacity: 0.7 }}>
+          Defaults for every chat; a chat can override them from its header. Parameters a provider does not support are not sent.
+        </p>
+        <SamplingFields
+          value={llmConfig}
+          onChange={(sampling) => setLLMConfig(prev => ({ ...prev, ...sampling }))}
+          inherited={{ temperature: DEFAULT_TEMPERATURE, maxTokens: DEFAULT_MAX_TOKENS }}
+          colors={colors}
+        />
+      </div>
+
+      {/* Reasoning Settings */}
+      <div>
+        <label className="block text-sm font-medium mb-2" style={{ color: colors?.text || '#000000' }}>
+          Thinking Budget (tokens)
+        </label>
+        <input
+          type="number"
+          min={1024}
+          step={1024}
+          value={llmConfig.thinkingBudget ?? ''}
+          onChange={(e) => {
+            const budget = Number(e.target.value);
+            setLLMConfig(prev => ({ ...prev, thinkingBudget: e.target.value && budget > 0 ? budget : undefined }));
+          }}
+          placeholder="Off"
+          className="w-full rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          style={{
+            background: colors?.input || '#f9fafb',
+            color: colors?.text || '#000000',
+            border: `1px solid ${colors?.border || '#e5e7eb'}`
+          }}
+        />
+        <p className="text-xs mt-1" style={{ color: colors?.text || '#000000', opacity: 0.7 }}>
+          Turns on extended thinking for Claude (at least 1024) and caps thinking for Gemini 2.5. Other reasoning models think on their own; their reasoning is shown collapsed above the answer.
+        </p>
+        <label className="flex items-center gap-2 mt-2 text-sm" style={{ color: colors?.text || '#000000' }}>
           <input
-            type="number"
-            min="0"
-            max="2"
-            step="0.1"
-            value={llmConfig.temperature}
-            onChange={(e) => setLLMConfig(prev => ({ 
-              ...prev, 
-              temperature: parseFloat(e.target.value) || 0.7 
-            }))}
-            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            type="checkbox"
+            checked={Boolean(llmConfig.reasoningInContext)}
+            onChange={(e) => setLLMConfig(prev => ({ ...prev, reasoningInContext: e.target.checked || undefined }))}
           />
-        </div>
+          Send earlier reasoning back to the model
+        </label>
+      </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Max Tokens
+      {/* User-defined Providers */}
+      <CustomProvidersSection
+        providers={providers.filter(provider => provider.userDefined)}
+        onChange={handleCustomProvidersChange}
+        colors={colors}
+      />
+
+      {/* Fallback Providers */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium" style={{ color: colors?.text || '#000000' }}>
+            Fallback Providers
           </label>
-          <input
-            type="number"
-            min="1"
-            max="8000"
-            value={llmConfig.maxTokens}
-            onChange={(e) => setLLMConfig(prev => ({ 
-              ...prev, 
-              maxTokens: parseInt(e.target.value) || 2000 
-            }))}
-            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-          />
+          <button
+            onClick={addFallback}
+            className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600"
+          >
+            <Plus size={14} />
+            Add Fallback
+          </button>
+        </div>
+        <p className="text-xs mb-2" style={{ color: colors?.text || '#000000', opacity: 0.7 }}>
+          Rate limits, timeouts and server errors are retried with backoff, then the next provider in this list takes over.
+        </p>
+        <div className="space-y-2">
+          {fallbacks.map((fallback, index) => {
+            const fallbackProvider = providers.find(p => p.id === fallback.provider);
+            const missingKey = fallbackProvider?.requiresApiKey !== false && !credentialStatus?.providers[fallback.provider];
+            return (
+              <div
+                key={index}
+                className="rounded-lg p-2 space-y-2"
+                style={{ border: `1px solid ${colors?.border || '#e5e7eb'}` }}
+              >
+                <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+                  <span className="text-xs font-medium w-6" style={{ color: colors?.text || '#000000', opacity: 0.7 }}>
+                    {index + 1}.
+                  </span>
+                  <select
+                    value={fallback.provider}
+                    onChange={(e) => {
+                      const providerData = providers.find(p => p.id === e.target.value);
+                      updateFallback(index, {
+                        provider: e.target.value as ProviderId,
+                        model: providerData?.models[0] || '',
+                        baseUrl: providerData?.customBaseUrl ? providerData.baseUrl : undefined
+                      });
+                    }}
+                    className="flex-1 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    style={{
+                      background: colors?.input || '#f9fafb',
+                      color: colors?.text || '#000000',
+                      border: `1px solid ${colors?.border || '#e5e7eb'}`
+                    }}
+                  >
+                    {providers.map(provider => (
+                      <option key={provider.id} value={provider.id}>
+                        {provider.name}
+                      </option>
+                    ))}
+                  </select>
+                  {fallbackProvider && fallbackProvider.models.length > 0 ? (
+                    <select
+                      value={fallback.model}
+                      onChange={(e) => updateFallback(index, { model: e.target.value })}
+                      className="flex-1 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      style={{
+                        background: colors?.input || '#f9fafb',
+                        color: colors?.text || '#000000',
+                        border: `1px solid ${colors?.border || '#e5e7eb'}`
+                      }}
+                    >
+                      {fallbackProvider.models.map(model => (
+                        <option key={model} value={model}>
+                          {model}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={fallback.model}
+                      onChange={(e) => updateFallback(index, { model: e.target.value })}
+                      placeholder="Model name"
+                      className="flex-1 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      style={{
+                        background: colors?.input || '#f9fafb',
+                        color: colors?.text || '#000000',
+                        border: `1px solid ${colors?.border || '#e5e7eb'}`
+                      }}
+                    />
+                  )}
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => moveFallback(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ChevronUp size={16} />
+                    </button>
+                    <button
+                      onClick={() => moveFallback(index, 1)}
+                      disabled={index === fallbacks.length - 1}
+                      className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ChevronDown size={16} />
+                    </button>
+                    <button
+                      onClick={() => removeFallback(index)}
+                      className="p-1 text-red-500 rounded hover:bg-red-50"
+                      title="Remove fallback"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+                {fallbackProvider?.customBaseUrl && (
+                  <input
+                    type="url"
+                    value={fallback.baseUrl || ''}
+                    onChange={(e) => updateFallback(index, { baseUrl: e.target.value })}
+                    placeholder="http://localhost:11434/v1"
+                    className="w-full rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    style={{
+                      background: colors?.input || '#f9fafb',
+                      color: colors?.text || '#000000',
+                      border: `1px solid ${colors?.border || '#e5e7eb'}`
+                    }}
+                  />
+                )}
+                {missingKey && (
+                  <p className="text-xs text-amber-600">No key on the server for {fallbackProvider?.name}; this fallback will be skipped.</p>
+                )}
+              </div>
+            );
+          })}
         </div>
       </div>
 
@@ -220,7 +588,7 @@ const LLMConfigurationSection: React.FC<{ colors?: Colors }> = ({ colors }) => {
       <div className="flex justify-end">
         <button
           onClick={handleSave}
-          disabled={!llmConfig.apiKey.trim()}
+          disabled={!canUseProvider || !llmConfig.model.trim()}
           className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed w-full sm:w-auto min-h-[44px]"
         >
           Save Configuration
@@ -441,6 +809,9 @@ const ConfigurationDialog: React.FC<ConfigurationDialogProps> = ({
         <div className="p-4 sm:p-6 overflow-y-auto max-h-[calc(95vh-120px)] sm:max-h-[calc(90vh-120px)]">
           <div className="space-y-6 sm:space-y-8">
             <LLMConfigurationSection colors={colors} />
+            <div style={{ borderTop: `1px solid ${colors.border}` }} className="pt-6 sm:pt-8">
+              <SemanticSearchSection colors={colors} />
+            </div>
             <div style={{ borderTop: `1px solid ${colors.border}` }} className="pt-6 sm:pt-8">
               <MCPServerSection colors={colors} />
             </div>
@@ -0,0 +1,247 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ProviderAuthStyle, ProviderDescriptor } from '@/types';
+import { CustomProviderId, toCustomProviderId } from '@/lib/llm/registry';
+import { deleteCustomProvider, saveCustomProvider } from '@/lib/llm/remote';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface Colors {
+  main: string;
+  text: string;
+  border: string;
+  input: string;
+}
+
+interface CustomProvidersSectionProps {
+  providers: ProviderDescriptor[];
+  onChange: (providers: ProviderDescriptor[]) => void;
+  colors?: Colors;
+}
+
+interface ProviderForm {
+  name: string;
+  api: 'openai' | 'anthropic';
+  baseUrl: string;
+  authStyle: ProviderAuthStyle;
+  models: string;
+  contextWindow: string;
+  tools: boolean;
+  vision: boolean;
+}
+
+const EMPTY_FORM: ProviderForm = {
+  name: '',
+  api: 'openai',
+  baseUrl: '',
+  authStyle: 'bearer',
+  models: '',
+  contextWindow: '',
+  tools: true,
+  vision: false
+};
+
+const AUTH_STYLE_LABELS: Partial<Record<ProviderAuthStyle, string>> = {
+  bearer: 'Authorization: Bearer',
+  'x-api-key': 'x-api-key header',
+  'api-key': 'api-key header (Azure)',
+  none: 'No key'
+};
+
+// Lets the user describe any endpoint that speaks the OpenAI or Anthropic API; definitions are
+// stored on the server, and keys for them are saved like any other provider's
+const CustomProvidersSection: React.FC<CustomProvidersSectionProps> = ({ providers, onChange, colors }) => {
+  const [form, setForm] = useState<ProviderForm>(EMPTY_FORM);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const inputStyle = {
+    background: colors?.input || '#f9fafb',
+    color: colors?.text || '#000000',
+    border: `1px solid ${colors?.border || '#e5e7eb'}`
+  };
+
+  const updateForm = (updates: Partial<ProviderForm>) => {
+    setForm(prev => ({ ...prev, ...updates }));
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const descriptor: ProviderDescriptor = {
+        id: toCustomProviderId(form.name),
+        name: form.name.trim(),
+        api: form.api,
+        baseUrl: form.baseUrl.trim(),
+        authStyle: form.authStyle,
+        requiresApiKey: form.authStyle !== 'none',
+        models: form.models.split(/[\n,]/).map(model => model.trim()).filter(Boolean),
+        capabilities: { tools: form.tools, vision: form.vision, pdf: false },
+        defaultContextWindow: parseInt(form.contextWindow) || undefined,
+        userDefined: true
+      };
+      onChange(await saveCustomProvider(descriptor));
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save provider');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: CustomProviderId) => {
+    if (!confirm('Remove this provider and any key saved for it?')) return;
+    try {
+      onChange(await deleteCustomProvider(id));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete provider');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium" style={{ color: colors?.text || '#000000' }}>
+          Custom Providers
+        </label>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center gap-1 px-2 py-1 text-sm text-blue-600 rounded hover:bg-blue-50"
+        >
+          <Plus size={14} />
+          Add Provider
+        </button>
+      </div>
+      <p className="text-xs mb-2" style={{ color: colors?.text || '#000000', opacity: 0.7 }}>
+        Any endpoint that speaks the OpenAI or Anthropic API, e.g. Azure OpenAI, DeepSeek, Mistral or a corporate gateway.
+      </p>
+
+      {showForm && (
+        <div className="rounded-lg p-3 mb-2 space-y-2" style={{ border: `1px solid ${colors?.border || '#e5e7eb'}` }}>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              placeholder="Name, e.g. DeepSeek"
+              className="rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              style={inputStyle}
+            />
+            <input
+              type="url"
+              value={form.baseUrl}
+              onChange={(e) => updateForm({ baseUrl: e.target.value })}
+              placeholder="https://api.deepseek.com/v1"
+              className="rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              style={inputStyle}
+            />
+            <select
+              value={form.api}
+              onChange={(e) => updateForm({ api: e.target.value as ProviderForm['api'] })}
+              className="rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              style={inputStyle}
+            >
+              <option value="openai">OpenAI-style API</option>
+              <option value="anthropic">Anthropic-style API</option>
+            </select>
+            <select
+              value={form.authStyle}
+              onChange={(e) => updateForm({ authStyle: e.target.value as ProviderAuthStyle })}
+              className="rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              style={inputStyle}
+            >
+              {Object.entries(AUTH_STYLE_LABELS).map(([style, label]) => (
+                <option key={style} value={style}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={form.models}
+              onChange={(e) => updateForm({ models: e.target.value })}
+              placeholder="Models, comma separated (optional)"
+              className="rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              style={inputStyle}
+            />
+            <input
+              type="number"
+              min="1"
+              value={form.contextWindow}
+              onChange={(e) => updateForm({ contextWindow: e.target.value })}
+              placeholder="Context window (tokens)"
+              className="rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              style={inputStyle}
+            />
+          </div>
+          <div className="flex flex-wrap gap-4 text-sm" style={{ color: colors?.text || '#000000' }}>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={form.tools} onChange={(e) => updateForm({ tools: e.target.checked })} />
+              Tool calling
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={form.vision} onChange={(e) => updateForm({ vision: e.target.checked })} />
+              Image input
+            </label>
+          </div>
+          {error && (
+            <p className="text-red-600 text-sm">{error}</p>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={!form.name.trim() || !form.baseUrl.trim() || isSaving}
+              className="px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Save Provider'}
+            </button>
+            <button
+              onClick={() => {
+                setShowForm(false);
+                setForm(EMPTY_FORM);
+                setError(null);
+              }}
+              className="px-3 py-1 text-sm bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!showForm && error && (
+        <p className="text-red-600 text-sm mb-2">{error}</p>
+      )}
+
+      <div className="space-y-1">
+        {providers.map(provider => (
+          <div
+            key={provider.id}
+            className="flex items-center justify-between rounded-lg px-3 py-2 text-sm"
+            style={{ border: `1px solid ${colors?.border || '#e5e7eb'}`, color: colors?.text || '#000000' }}
+          >
+            <div className="min-w-0">
+              <span className="font-medium">{provider.name}</span>
+              <span className="ml-2 text-xs truncate" style={{ opacity: 0.7 }}>
+                {provider.api} · {provider.baseUrl}
+              </span>
+            </div>
+            <button
+              onClick={() => handleDelete(provider.id as CustomProviderId)}
+              className="p-1 text-red-500 rounded hover:bg-red-50"
+              title="Remove provider"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CustomProvidersSection;
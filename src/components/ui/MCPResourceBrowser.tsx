@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAppStore } from '@/store';
+import { MCPResource, MCPResourceTemplate } from '@/types';
+import { Paperclip, RefreshCw } from 'lucide-react';
+
+interface Colors {
+  bubble: string;
+  input: string;
+  text: string;
+  border: string;
+}
+
+// A server's resources and resource templates; attaching one adds its contents to the next message
+const MCPResourceBrowser: React.FC<{ serverId: string; colors: Colors }> = ({ serverId, colors }) => {
+  const { loadMCPResources, attachMCPResource } = useAppStore();
+  const [resources, setResources] = useState<MCPResource[]>([]);
+  const [templates, setTemplates] = useState<MCPResourceTemplate[]>([]);
+  // URIs typed for each template, starting from the template itself
+  const [templateUris, setTemplateUris] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [attaching, setAttaching] = useState<string | null>(null);
+  const [attached, setAttached] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const listing = await loadMCPResources(serverId);
+      setResources(listing.resources);
+      setTemplates(listing.templates);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load resources');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [serverId, loadMCPResources]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const attach = async (uri: string, name: string) => {
+    setAttaching(uri);
+    setError(null);
+    try {
+      await attachMCPResource(serverId, uri, name);
+      setAttached(prev => [...prev, uri]);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : `Failed to attach ${name}`);
+    } finally {
+      setAttaching(null);
+    }
+  };
+
+  const inputStyle = { background: colors.input, color: colors.text, border: `1px solid ${colors.border}` };
+
+  return (
+    <div className="mt-2 pt-2 space-y-1 text-xs" style={{ color: colors.text, borderTop: `1px solid ${colors.border}` }}>
+      <div className="flex items-center justify-between">
+        <span className="font-medium opacity-70">📚 Resources</span>
+        <button onClick={load} disabled={isLoading} className="p-1 rounded hover:opacity-80 disabled:opacity-50" title="Reload resources">
+          <RefreshCw size={12} className={isLoading ? 'animate-spin' : undefined} />
+        </button>
+      </div>
+
+      {error && <div className="text-red-400 break-words">⚠️ {error}</div>}
+      {!isLoading && !error && resources.length === 0 && templates.length === 0 && (
+        <div className="opacity-60">This server has no resources</div>
+      )}
+
+      {resources.map(resource => (
+        <div key={resource.uri} className="flex items-center gap-2 p-1 rounded" style={{ backgroundColor: `${colors.bubble}40` }}>
+          <div className="min-w-0 flex-1" title={resource.description || resource.uri}>
+            <div className="truncate">{resource.name}</div>
+            <div className="truncate opacity-50 font-mono">{resource.uri}</div>
+          </div>
+          <button
+            onClick={() => attach(resource.uri, resource.name)}
+            disabled={attaching !== null}
+            className="p-1 rounded hover:opacity-80 disabled:opacity-50 flex-shrink-0"
+            title="Attach to the next message"
+          >
+            {attaching === resource.uri ? '…' : attached.includes(resource.uri) ? '✓' : <Paperclip size={12} />}
+          </button>
+        </div>
+      ))}
+
+      {templates.map(template => {
+        const uri = templateUris[template.uriTemplate] ?? template.uriTemplate;
+        // Unfilled {variables} would be sent to the server verbatim
+        const isComplete = !/\{[^}]*\}/.test(uri);
+        return (
+          <div key={template.uriTemplate} className="p-1 rounded space-y-1" style={{ backgroundColor: `${colors.bubble}40` }}>
+            <div className="truncate" title={template.description}>{template.name}</div>
+            <div className="flex items-center gap-1">
+              <input
+                type="text"
+                value={uri}
+                onChange={(e) => setTemplateUris(prev => ({ ...prev, [template.uriTemplate]: e.target.value }))}
+                className="min-w-0 flex-1 rounded px-1 py-0.5 font-mono focus:outline-none"
+                style={inputStyle}
+              />
+              <button
+                onClick={() => attach(uri, template.name)}
+                disabled={!isComplete || attaching !== null}
+                className="p-1 rounded hover:opacity-80 disabled:opacity-50 flex-shrink-0"
+                title={isComplete ? 'Attach to the next message' : 'Fill in the {placeholders} first'}
+              >
+                {attaching === uri ? '…' : <Paperclip size={12} />}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MCPResourceBrowser;
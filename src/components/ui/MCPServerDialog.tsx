@@ -45,8 +45,8 @@ const MCPServerDialog: React.FC<MCPServerDialogProps> = ({
       return;
     }
 
-    if ((config.transport === 'sse' || config.transport === 'websocket') && !config.url) {
-      alert('URL is required for SSE/WebSocket transport');
+    if (config.transport !== 'stdio' && !config.url) {
+      alert('URL is required for SSE, Streamable HTTP and WebSocket transports');
       return;
     }
 
@@ -122,6 +122,7 @@ const MCPServerDialog: React.FC<MCPServerDialogProps> = ({
               className="w-full px-3 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 min-h-[44px]"
             >
               <option value="stdio">📟 Stdio (Command Line)</option>
+              <option value="streamable-http">🌍 Streamable HTTP</option>
               <option value="sse">🌐 SSE (HTTP Server-Sent Events)</option>
               <option value="websocket">🔌 WebSocket</option>
             </select>
@@ -161,10 +162,11 @@ const MCPServerDialog: React.FC<MCPServerDialogProps> = ({
             </div>
           )}
 
-          {(config.transport === 'sse' || config.transport === 'websocket') && (
+          {config.transport !== 'stdio' && (
             <div className="space-y-4 p-4 bg-gray-900 rounded-lg">
               <h3 className="text-lg font-medium text-green-300">
-                {config.transport === 'sse' ? '🌐 SSE Configuration' : '🔌 WebSocket Configuration'}
+                {config.transport === 'sse' ? '🌐 SSE Configuration' :
+                 config.transport === 'streamable-http' ? '🌍 Streamable HTTP Configuration' : '🔌 WebSocket Configuration'}
               </h3>
               
               <div>
@@ -176,7 +178,10 @@ const MCPServerDialog: React.FC<MCPServerDialogProps> = ({
                   value={config.url}
                   onChange={(e) => setConfig({...config, url: e.target.value})}
                   className="w-full px-3 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 min-h-[44px]"
-                  placeholder={config.transport === 'sse' ? 'http://localhost:8080/sse' : 'ws://localhost:8080/ws'}
+                  placeholder={
+                    config.transport === 'sse' ? 'http://localhost:8080/sse' :
+                    config.transport === 'streamable-http' ? 'http://localhost:8080/mcp' : 'ws://localhost:8080/ws'
+                  }
                 />
               </div>
 
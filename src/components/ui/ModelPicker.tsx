@@ -0,0 +1,162 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ModelInfo } from '@/types';
+import { RefreshCw, Search, Eye, Wrench } from 'lucide-react';
+
+interface Colors {
+  main: string;
+  text: string;
+  border: string;
+  input: string;
+}
+
+interface ModelPickerProps {
+  models: ModelInfo[];
+  value: string;
+  onChange: (model: string) => void;
+  onRefresh: () => void;
+  isLoading: boolean;
+  source?: 'live' | 'static';
+  error?: string;
+  // Self-hosted servers accept any model name, listed or not
+  allowCustom?: boolean;
+  colors?: Colors;
+}
+
+function formatContextWindow(tokens: number): string {
+  if (tokens >= 1_000_000) return `${+(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${Math.round(tokens / 1000)}k`;
+  return String(tokens);
+}
+
+function formatPrice(pricing: NonNullable<ModelInfo['pricing']>): string {
+  if (pricing.input === 0 && pricing.output === 0) return 'free';
+  return `$${+pricing.input.toFixed(3)}/$${+pricing.output.toFixed(3)}`;
+}
+
+const ModelPicker: React.FC<ModelPickerProps> = ({
+  models,
+  value,
+  onChange,
+  onRefresh,
+  isLoading,
+  source,
+  error,
+  allowCustom = false,
+  colors
+}) => {
+  const [query, setQuery] = useState('');
+
+  const filteredModels = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return models;
+    return models.filter(model =>
+      model.id.toLowerCase().includes(needle) || model.name?.toLowerCase().includes(needle)
+    );
+  }, [models, query]);
+
+  const customModel = allowCustom && query.trim() && !models.some(model => model.id === query.trim())
+    ? query.trim()
+    : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="flex-1 relative">
+          <Search size={16} className="absolute left-3 top-3 opacity-50" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={allowCustom ? 'Search or type a model name' : `Search ${models.length} models`}
+            className="w-full rounded-lg pl-9 pr-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            style={{
+              background: colors?.input || '#f9fafb',
+              color: colors?.text || '#000000',
+              border: `1px solid ${colors?.border || '#e5e7eb'}`
+            }}
+          />
+        </div>
+        <button
+          onClick={onRefresh}
+          disabled={isLoading}
+          title="Refresh the model list from the provider"
+          className="px-3 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px]"
+        >
+          <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      <div
+        className="max-h-56 overflow-y-auto rounded-lg"
+        style={{ border: `1px solid ${colors?.border || '#e5e7eb'}` }}
+      >
+        {customModel && (
+          <button
+            onClick={() => {
+              onChange(customModel);
+              setQuery('');
+            }}
+            className="w-full text-left px-3 py-2 text-sm hover:bg-blue-500/10"
+            style={{ color: colors?.text || '#000000' }}
+          >
+            Use &ldquo;{customModel}&rdquo;
+          </button>
+        )}
+        {filteredModels.map(model => (
+          <button
+            key={model.id}
+            onClick={() => onChange(model.id)}
+            className={`w-full text-left px-3 py-2 text-sm flex items-center justify-between gap-2 hover:bg-blue-500/10 ${
+              model.id === value ? 'bg-blue-500/20' : ''
+            }`}
+            style={{ color: colors?.text || '#000000' }}
+          >
+            <span className="truncate">
+              {model.id}
+              {model.name && model.name !== model.id && (
+                <span className="ml-2 text-xs opacity-60">{model.name}</span>
+              )}
+            </span>
+            <span className="flex items-center gap-1 flex-shrink-0 text-xs">
+              {model.capabilities?.vision && (
+                <span className="px-1.5 py-0.5 rounded bg-purple-500/20 flex items-center gap-1" title="Accepts images">
+                  <Eye size={12} /> vision
+                </span>
+              )}
+              {model.capabilities?.tools && (
+                <span className="px-1.5 py-0.5 rounded bg-green-500/20 flex items-center gap-1" title="Supports tool calling">
+                  <Wrench size={12} /> tools
+                </span>
+              )}
+              {model.contextWindow && (
+                <span className="px-1.5 py-0.5 rounded bg-blue-500/20" title="Context window (tokens)">
+                  {formatContextWindow(model.contextWindow)}
+                </span>
+              )}
+              {model.pricing && (
+                <span className="px-1.5 py-0.5 rounded bg-gray-500/20" title="USD per million input/output tokens">
+                  {formatPrice(model.pricing)}
+                </span>
+              )}
+            </span>
+          </button>
+        ))}
+        {filteredModels.length === 0 && !customModel && (
+          <p className="px-3 py-2 text-sm opacity-60" style={{ color: colors?.text || '#000000' }}>
+            {isLoading ? 'Loading models...' : 'No models match'}
+          </p>
+        )}
+      </div>
+
+      <p className="text-xs" style={{ color: colors?.text || '#000000', opacity: 0.7 }}>
+        {value ? <>Selected: <span className="font-medium">{value}</span></> : 'No model selected'}
+        {source === 'live' && ' · live list from the provider'}
+        {source === 'static' && ` · offline list${error ? ` (${error})` : ''}`}
+      </p>
+    </div>
+  );
+};
+
+export default ModelPicker;
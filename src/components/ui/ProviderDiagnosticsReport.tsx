@@ -0,0 +1,98 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ProviderDiagnostics } from '@/types';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+
+interface Colors {
+  main: string;
+  text: string;
+  border: string;
+  input: string;
+}
+
+const AUTH_LABELS: Record<ProviderDiagnostics['auth'], string> = {
+  ok: '✅ Key accepted',
+  rejected: '❌ Key rejected',
+  missing: '❌ No key on the server',
+  not_required: '✅ No key needed',
+  unknown: '⚠️ Could not be checked'
+};
+
+const KEY_SOURCES: Record<ProviderDiagnostics['keySource'], string> = {
+  env: 'Server environment',
+  stored: 'Stored on the server',
+  none: 'None'
+};
+
+function supportLabel(value: boolean | undefined): string {
+  if (value === undefined) return 'Unknown';
+  return value ? 'Yes' : 'No';
+}
+
+// What a provider check found, row by row, with the provider's own error when something failed
+const ProviderDiagnosticsReport: React.FC<{ report: ProviderDiagnostics; colors?: Colors }> = ({ report, colors }) => {
+  const [showModels, setShowModels] = useState(false);
+
+  const rows: [string, string][] = [
+    ['Endpoint', report.endpoint || 'Default'],
+    ['API key', KEY_SOURCES[report.keySource]],
+    ['Authentication', AUTH_LABELS[report.auth]],
+    ['Reachable', report.reachable ? `Yes${report.latencyMs !== undefined ? ` (${report.latencyMs} ms)` : ''}` : 'No'],
+    ['Selected model', `${report.model}${report.modelListed === false ? ' (not in the provider\'s model list)' : ''}`],
+    ['Tool calling', supportLabel(report.supportsTools)],
+    ['Vision', supportLabel(report.supportsVision)],
+    ['PDF input', supportLabel(report.supportsPdf)]
+  ];
+
+  return (
+    <div
+      className="mt-3 rounded-lg p-3 text-sm space-y-2"
+      style={{ background: colors?.input || '#f9fafb', color: colors?.text || '#000000', border: `1px solid ${colors?.border || '#e5e7eb'}` }}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">{report.providerName} diagnostics</span>
+        <span className="text-xs" style={{ opacity: 0.7 }}>{new Date(report.checkedAt).toLocaleTimeString()}</span>
+      </div>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt style={{ opacity: 0.7 }}>{label}</dt>
+            <dd className="break-all">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+
+      {report.models && (
+        <div>
+          <button
+            onClick={() => setShowModels(!showModels)}
+            className="flex items-center gap-1 text-xs hover:opacity-80"
+          >
+            {showModels ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+            {report.models.length} models available
+          </button>
+          {showModels && (
+            <ul className="mt-1 max-h-40 overflow-y-auto text-xs font-mono space-y-0.5">
+              {report.models.map(model => (
+                <li key={model} className={model === report.model ? 'font-bold' : undefined}>{model}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {report.error && (
+        <div className="rounded p-2 bg-red-500/10 text-red-600">
+          <p className="text-xs font-medium">
+            {report.error.kind}{report.error.status !== undefined && ` · HTTP ${report.error.status}`}
+          </p>
+          <p className="break-words">{report.error.message}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderDiagnosticsReport;
@@ -0,0 +1,89 @@
+'use client';
+
+import React from 'react';
+import { SamplingParams } from '@/types';
+
+interface Colors {
+  main: string;
+  text: string;
+  border: string;
+  input: string;
+}
+
+interface SamplingFieldsProps {
+  value: SamplingParams;
+  onChange: (value: SamplingParams) => void;
+  // Values used when a field is left empty, shown as placeholders
+  inherited?: SamplingParams;
+  colors?: Colors;
+}
+
+type NumericParam = Exclude<keyof SamplingParams, 'stop'>;
+
+const NUMERIC_FIELDS: { key: NumericParam; label: string; min?: number; max?: number; step: number; hint: string }[] = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1, hint: 'Randomness; 0 is the most deterministic' },
+  { key: 'maxTokens', label: 'Max Tokens', min: 1, step: 1, hint: 'Longest reply, in tokens' },
+  { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05, hint: 'Nucleus sampling; usually change this or temperature, not both' },
+  { key: 'topK', label: 'Top K', min: 1, step: 1, hint: 'Anthropic, Gemini, Hugging Face and some OpenAI-compatible servers' },
+  { key: 'presencePenalty', label: 'Presence Penalty', min: -2, max: 2, step: 0.1, hint: 'Not supported by Anthropic' },
+  { key: 'frequencyPenalty', label: 'Frequency Penalty', min: -2, max: 2, step: 0.1, hint: 'Not supported by Anthropic' },
+  { key: 'seed', label: 'Seed', step: 1, hint: 'Best-effort reproducibility; OpenAI-style APIs and Hugging Face' }
+];
+
+function parseNumber(text: string): number | undefined {
+  if (text.trim() === '') return undefined;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+// Editor for sampling parameters; an empty field means "not set" rather than zero
+const SamplingFields: React.FC<SamplingFieldsProps> = ({ value, onChange, inherited = {}, colors }) => {
+  const inputStyle = {
+    background: colors?.input || '#f9fafb',
+    color: colors?.text || '#000000',
+    border: `1px solid ${colors?.border || '#e5e7eb'}`
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {NUMERIC_FIELDS.map(field => (
+        <div key={field.key}>
+          <label className="block text-sm font-medium mb-1" style={{ color: colors?.text || '#000000' }} title={field.hint}>
+            {field.label}
+          </label>
+          <input
+            type="number"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            value={value[field.key] ?? ''}
+            onChange={(e) => onChange({ ...value, [field.key]: parseNumber(e.target.value) })}
+            placeholder={inherited[field.key] !== undefined ? String(inherited[field.key]) : 'Provider default'}
+            title={field.hint}
+            className="w-full rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            style={inputStyle}
+          />
+        </div>
+      ))}
+      <div>
+        <label className="block text-sm font-medium mb-1" style={{ color: colors?.text || '#000000' }}>
+          Stop Sequences
+        </label>
+        <textarea
+          value={(value.stop || []).join('\n')}
+          onChange={(e) => {
+            const stop = e.target.value.split('\n');
+            // Keep a trailing empty line while typing; empty entries are dropped when sending
+            onChange({ ...value, stop: stop.length === 1 && !stop[0] ? undefined : stop });
+          }}
+          placeholder={inherited.stop?.length ? inherited.stop.join('\n') : 'One per line'}
+          rows={2}
+          className="w-full rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          style={inputStyle}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SamplingFields;
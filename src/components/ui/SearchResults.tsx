@@ -0,0 +1,62 @@
+'use client';
+
+import React from 'react';
+import { MessageSearchResult, SearchMode } from '@/types';
+
+interface Colors {
+  bubble: string;
+  text: string;
+  border: string;
+}
+
+interface SearchResultsProps {
+  results: MessageSearchResult[];
+  mode: SearchMode;
+  onSelect: (result: MessageSearchResult) => void;
+  colors: Colors;
+}
+
+// The snippet with its matched words marked
+const HighlightedSnippet: React.FC<{ result: MessageSearchResult }> = ({ result }) => {
+  const pieces: React.ReactNode[] = [];
+  let position = 0;
+  result.highlights.forEach(([start, end]) => {
+    if (start > position) pieces.push(result.snippet.slice(position, start));
+    pieces.push(
+      <mark key={start} className="bg-yellow-400/40 text-inherit rounded-sm">
+        {result.snippet.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  pieces.push(result.snippet.slice(position));
+  return <>{pieces}</>;
+};
+
+// Ranked history search hits; clicking one opens its conversation at that message
+const SearchResults: React.FC<SearchResultsProps> = ({ results, mode, onSelect, colors }) => (
+  <div className="space-y-1">
+    {results.map(result => (
+      <button
+        key={`${result.sessionId}:${result.messageId || 'title'}`}
+        onClick={() => onSelect(result)}
+        className="w-full text-left p-2 rounded-lg transition-colors hover:opacity-80"
+        style={{ backgroundColor: `${colors.bubble}40`, border: `1px solid ${colors.border}` }}
+      >
+        <div className="flex items-center justify-between gap-2 text-xs mb-1" style={{ color: colors.text, opacity: 0.7 }}>
+          <span className="truncate">
+            {result.role === 'user' ? '👤' : result.role === 'assistant' ? '🤖' : '💬'} {result.sessionTitle}
+          </span>
+          <span className="flex-shrink-0">
+            {mode === 'semantic' ? `${Math.round(result.score * 100)}%` : result.timestamp.toLocaleDateString()}
+          </span>
+        </div>
+        <p className="text-sm break-words line-clamp-3" style={{ color: colors.text }}>
+          <HighlightedSnippet result={result} />
+        </p>
+      </button>
+    ))}
+  </div>
+);
+
+export default SearchResults;
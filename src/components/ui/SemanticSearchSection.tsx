@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useAppStore, resolveEmbeddingConfig } from '@/store';
+import { EmbeddingConfig, ProviderId } from '@/types';
+import { getProviderDescriptor, getProviders } from '@/lib/llm/registry';
+import { Search } from 'lucide-react';
+
+interface Colors {
+  main: string;
+  text: string;
+  border: string;
+  input: string;
+}
+
+// Which embedding model indexes the chat history for semantic search in the sidebar
+const SemanticSearchSection: React.FC<{ colors?: Colors }> = ({ colors }) => {
+  const { config, updateEmbeddingConfig } = useAppStore();
+  const [draft, setDraft] = useState<EmbeddingConfig | undefined>(config?.embedding);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setDraft(config?.embedding);
+  }, [config?.embedding]);
+
+  // Built-in providers with an embeddings API, and user-defined OpenAI-style ones that may have one
+  const providers = getProviders().filter(provider => provider.embeddingModels?.length || (provider.userDefined && provider.api === 'openai'));
+  const fallback = resolveEmbeddingConfig(config ? { ...config, embedding: undefined } : null);
+  const descriptor = draft ? getProviderDescriptor(draft.provider) : undefined;
+  const inputStyle = {
+    background: colors?.input || '#f9fafb',
+    color: colors?.text || '#000000',
+    border: `1px solid ${colors?.border || '#e5e7eb'}`
+  };
+
+  const handleProviderChange = (value: string) => {
+    setSaved(false);
+    if (!value) {
+      setDraft(undefined);
+      return;
+    }
+    const provider = getProviderDescriptor(value);
+    setDraft({
+      provider: value as ProviderId,
+      model: provider?.embeddingModels?.[0] || '',
+      baseUrl: provider?.customBaseUrl ? provider.baseUrl : undefined
+    });
+  };
+
+  const handleSave = () => {
+    updateEmbeddingConfig(draft?.model.trim() ? { ...draft, model: draft.model.trim() } : undefined);
+    setSaved(true);
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium flex items-center gap-2" style={{ color: colors?.text || '#000000' }}>
+        <Search size={20} />
+        Semantic Search
+      </h3>
+      <p className="text-xs" style={{ color: colors?.text || '#000000', opacity: 0.7 }}>
+        Searching the sidebar by meaning embeds every message once with this model and keeps the vectors in this browser.
+        Changing the model embeds the history again on the next search.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium mb-2" style={{ color: colors?.text || '#000000' }}>
+            Provider
+          </label>
+          <select
+            value={draft?.provider || ''}
+            onChange={(e) => handleProviderChange(e.target.value)}
+            className="w-full rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            style={inputStyle}
+          >
+            <option value="">
+              {fallback ? `Chat provider's default (${fallback.model})` : 'None: semantic search is off'}
+            </option>
+            {providers.map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.name}</option>
+            ))}
+          </select>
+        </div>
+        {draft && (
+          <div>
+            <label className="block text-sm font-medium mb-2" style={{ color: colors?.text || '#000000' }}>
+              Embedding Model
+            </label>
+            <input
+              type="text"
+              value={draft.model}
+              onChange={(e) => {
+                setSaved(false);
+                setDraft({ ...draft, model: e.target.value });
+              }}
+              list="embedding-models"
+              placeholder="Model name"
+              className="w-full rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              style={inputStyle}
+            />
+            <datalist id="embedding-models">
+              {(descriptor?.embeddingModels || []).map(model => <option key={model} value={model} />)}
+            </datalist>
+          </div>
+        )}
+      </div>
+
+      {draft && descriptor?.customBaseUrl && (
+        <div>
+          <label className="block text-sm font-medium mb-2" style={{ color: colors?.text || '#000000' }}>
+            Base URL
+          </label>
+          <input
+            type="text"
+            value={draft.baseUrl || ''}
+            onChange={(e) => {
+              setSaved(false);
+              setDraft({ ...draft, baseUrl: e.target.value || undefined });
+            }}
+            placeholder={descriptor.baseUrl}
+            className="w-full rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            style={inputStyle}
+          />
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        {saved && <span className="text-sm text-green-600">Saved</span>}
+        <button
+          onClick={handleSave}
+          disabled={!config || Boolean(draft && !draft.model.trim())}
+          className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed w-full sm:w-auto min-h-[44px]"
+        >
+          Save Search Model
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SemanticSearchSection;
@@ -2,8 +2,11 @@
 
 import React, { useState } from 'react';
 import { useAppStore } from '@/store';
-import { MCPServerConfig, ChatSession } from '@/types';
+import { MCPServerConfig, MCPServerHealth, MCPServerStatus, ChatSession, MessageSearchResult, SearchMode } from '@/types';
+import { describeError } from '@/lib/llm/errors';
 import MCPServerDialog from './MCPServerDialog';
+import SearchResults from './SearchResults';
+import MCPResourceBrowser from './MCPResourceBrowser';
 import { 
   MessageSquare, 
   Plus, 
@@ -43,6 +46,26 @@ const themes = {
   },
 };
 
+const SERVER_STATUS: Record<MCPServerStatus, { dot: string; label: string }> = {
+  starting: { dot: 'bg-yellow-400 animate-pulse', label: '⏳ Starting' },
+  ready: { dot: 'bg-green-500', label: '✅ Ready' },
+  degraded: { dot: 'bg-orange-400', label: '⚠️ Not answering pings' },
+  crashed: { dot: 'bg-red-500', label: '💥 Crashed' },
+  stopped: { dot: 'bg-gray-500', label: '⏹ Stopped' }
+};
+
+// What the supervisor says beyond "ready": the current trouble, restarts so far and whether it will retry
+function describeHealth(health: MCPServerHealth): string {
+  const parts = [SERVER_STATUS[health.status].label];
+  if (health.status === 'crashed') {
+    parts.push(health.nextRestartAt ? 'restarting…' : 'gave up');
+  }
+  if (health.restarts > 0) {
+    parts.push(`↻ ${health.restarts}`);
+  }
+  return parts.join(' · ');
+}
+
 interface SidebarProps {
   theme?: 'dark' | 'green' | 'light';
   sidebarCollapsed?: boolean;
@@ -124,16 +147,29 @@ const Sidebar: React.FC<SidebarProps> = ({
     isLLMConfigured,
     mcpServers,
     availableTools,
+    mcpToolsError,
     toggleMCPServer,
     refreshMCPTools,
-    addMCPServer
+    reconnectMCPServers,
+    addMCPServer,
+    searchHistory,
+    jumpToMessage,
+    indexingProgress,
+    mcpServerHealth,
+    mcpServerHealthLive,
+    watchMCPServerHealth
   } = useAppStore();
   
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchMode, setSearchMode] = useState<SearchMode>('keyword');
+  const [searchResults, setSearchResults] = useState<MessageSearchResult[]>([]);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
   const [showRecent, setShowRecent] = useState(true);
   const [showOlder, setShowOlder] = useState(false);
   const [showMCPDialog, setShowMCPDialog] = useState(false);
   const [editingMCPServer, setEditingMCPServer] = useState<MCPServerConfig | null>(null);
+  const [browsingResourcesOf, setBrowsingResourcesOf] = useState<string | null>(null);
   
   const colors = themes[theme];
 
@@ -141,21 +177,56 @@ const Sidebar: React.FC<SidebarProps> = ({
     loadSessions();
   }, [loadSessions]);
 
-  const filteredSessions = sessions.filter(session =>
-    session.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    session.messages.some(msg => 
-      msg.content.toLowerCase().includes(searchQuery.toLowerCase())
-    )
-  );
+  React.useEffect(() => watchMCPServerHealth(), [watchMCPServerHealth]);
+
+  React.useEffect(() => {
+    reconnectMCPServers();
+  }, [reconnectMCPServers]);
+
+  const isSearchActive = searchQuery.trim().length > 0;
+
+  // Semantic search calls the embeddings API, so it waits for a longer pause in typing
+  React.useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults([]);
+      setSearchError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const results = await searchHistory(query, searchMode);
+        if (!cancelled) {
+          setSearchResults(results);
+          setSearchError(null);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setSearchResults([]);
+          setSearchError(describeError(error));
+        }
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, searchMode === 'semantic' ? 500 : 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, searchMode, searchHistory]);
 
   const now = new Date();
   const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
   
-  const recentSessions = filteredSessions.filter(session => 
+  const recentSessions = sessions.filter(session => 
     session.updatedAt >= sevenDaysAgo
   );
   
-  const olderSessions = filteredSessions.filter(session => 
+  const olderSessions = sessions.filter(session => 
     session.updatedAt < sevenDaysAgo
   );
 
@@ -225,6 +296,9 @@ const Sidebar: React.FC<SidebarProps> = ({
                 </span>
               </div>
             </div>
+            {mcpToolsError && (
+              <div className="mt-1 text-xs text-red-400 break-words">⚠️ {mcpToolsError}</div>
+            )}
           </div>
 
           {/* Search */}
@@ -233,7 +307,7 @@ const Sidebar: React.FC<SidebarProps> = ({
               <Search size={16} className="absolute left-3 top-3 text-gray-400" />
               <input
                 type="text"
-                placeholder="Search conversations..."
+                placeholder={searchMode === 'semantic' ? 'Search by meaning...' : 'Search conversations...'}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="w-full pl-10 pr-3 py-2 rounded-lg focus:outline-none text-sm"
@@ -245,6 +319,29 @@ const Sidebar: React.FC<SidebarProps> = ({
                 }}
               />
             </div>
+            <div className="flex items-center gap-1 mt-2 text-xs">
+              {(['keyword', 'semantic'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setSearchMode(mode)}
+                  className="px-2 py-1 rounded transition-colors"
+                  style={{
+                    backgroundColor: searchMode === mode ? colors.bubble : 'transparent',
+                    color: colors.text,
+                    opacity: searchMode === mode ? 1 : 0.6,
+                    border: `1px solid ${searchMode === mode ? colors.border : 'transparent'}`
+                  }}
+                  title={mode === 'keyword' ? 'Messages containing every word' : 'Messages closest in meaning, using an embedding model'}
+                >
+                  {mode === 'keyword' ? 'Keyword' : '🧠 Semantic'}
+                </button>
+              ))}
+              {isSearching && (
+                <span className="ml-auto opacity-60" style={{ color: colors.text }}>
+                  {indexingProgress ? `Indexing ${indexingProgress.done}/${indexingProgress.total}…` : 'Searching…'}
+                </span>
+              )}
+            </div>
           </div>
           
           {/* MCP Servers Control */}
@@ -265,7 +362,11 @@ const Sidebar: React.FC<SidebarProps> = ({
                   const transport = server.transport || 'unknown';
                   const transportIcon = transport === 'stdio' ? '📟' : 
                                        transport === 'sse' ? '🌐' : 
+                                       transport === 'streamable-http' ? '🌍' : 
                                        transport === 'websocket' ? '🔌' : '❓';
+                  // Switched-off servers are not supervised, so their last reported state would be stale
+                  const health = server.isConnected ? mcpServerHealth[server.id] : undefined;
+                  const isHealthStale = Boolean(health) && !mcpServerHealthLive;
                   
                   return (
                     <div key={server.id} className="p-2 rounded-lg" 
@@ -273,13 +374,22 @@ const Sidebar: React.FC<SidebarProps> = ({
                       <div className="flex items-center justify-between mb-1">
                         <div className="flex items-center gap-2 min-w-0 flex-1">
                           <div className={`w-2 h-2 rounded-full flex-shrink-0 ${
-                            server.isConnected ? 'bg-green-500' : 'bg-red-500'
+                            isHealthStale ? 'bg-gray-400' : health ? SERVER_STATUS[health.status].dot : server.isConnected ? 'bg-green-500' : 'bg-red-500'
                           }`} />
                           <span className="text-sm font-medium truncate" style={{ color: colors.text }}>
                             {server.name}
                           </span>
                         </div>
                         <div className="flex items-center gap-1">
+                          {server.isConnected && (
+                            <button
+                              onClick={() => setBrowsingResourcesOf(browsingResourcesOf === server.id ? null : server.id)}
+                              className="p-1 hover:bg-gray-600 rounded transition-colors text-xs"
+                              title="Browse resources"
+                            >
+                              📚
+                            </button>
+                          )}
                           <button
                             onClick={() => {
                               setEditingMCPServer(server);
@@ -312,6 +422,23 @@ const Sidebar: React.FC<SidebarProps> = ({
                           </span>
                         )}
                       </div>
+                      {health && isHealthStale && (
+                        <div className="text-xs mt-1 truncate" style={{ color: colors.text, opacity: 0.7 }} title={`Last known: ${describeHealth(health)}`}>
+                          ❔ Status unknown · reconnecting to the server…
+                        </div>
+                      )}
+                      {health && !isHealthStale && (health.status !== 'ready' || health.restarts > 0) && (
+                        <div
+                          className={`text-xs mt-1 truncate ${health.status === 'crashed' ? 'text-red-400' : ''}`}
+                          style={health.status === 'crashed' ? undefined : { color: colors.text, opacity: 0.7 }}
+                          title={health.lastError}
+                        >
+                          {describeHealth(health)}
+                        </div>
+                      )}
+                      {server.isConnected && browsingResourcesOf === server.id && (
+                        <MCPResourceBrowser serverId={server.id} colors={colors} />
+                      )}
                     </div>
                   );
                 })}
@@ -333,9 +460,24 @@ const Sidebar: React.FC<SidebarProps> = ({
           <div className={`flex-1 overflow-y-auto scrollbar-thin ${
             theme === 'green' ? 'scrollbar-green' : theme === 'light' ? 'scrollbar-light' : ''
           }`}>
-            {filteredSessions.length === 0 ? (
+            {isSearchActive ? (
+              searchError ? (
+                <div className="p-4 text-center text-sm text-red-400">{searchError}</div>
+              ) : searchResults.length === 0 ? (
+                <div className="p-4 text-center" style={{ color: colors.text, opacity: 0.7 }}>
+                  {isSearching ? 'Searching…' : 'No matching conversations'}
+                </div>
+              ) : (
+                <SearchResults
+                  results={searchResults}
+                  mode={searchMode}
+                  onSelect={(result) => jumpToMessage(result.sessionId, result.messageId)}
+                  colors={colors}
+                />
+              )
+            ) : sessions.length === 0 ? (
               <div className="p-4 text-center" style={{ color: colors.text, opacity: 0.7 }}>
-                {searchQuery ? 'No matching conversations' : 'No conversations yet'}
+                No conversations yet
               </div>
             ) : (
               <div className="space-y-4">
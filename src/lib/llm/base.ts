@@ -0,0 +1,230 @@
+import { v4 as uuidv4 } from 'uuid';
+import { LLMConfig, LLMResponse, LLMStreamDelta, MCPTool, Message, ModelInfo, ResponseFormat, SamplingParams, StructuredOutput, TokenUsage, ToolCall, ToolInvocation, ToolResult } from '@/types';
+import { addUsage } from './catalog';
+import { createLLMError } from './errors';
+import { buildRepairPrompt, parseStructuredReply } from './structured';
+
+// Provider-agnostic base shared by the server-side SDK providers and the browser proxy client
+export interface GenerateOptions {
+  tools?: MCPTool[];
+  executeTool?: (call: ToolCall) => Promise<ToolResult>;
+  maxToolRounds?: number;
+  signal?: AbortSignal;
+  // Ask for a JSON reply matching a schema; an invalid reply is sent back for one repair attempt
+  responseFormat?: ResponseFormat;
+  // Per-session values that replace the configured ones
+  sampling?: SamplingParams;
+}
+
+// Everything a provider needs for one model round trip
+export interface TurnRequest {
+  messages: Message[];
+  systemPrompt?: string;
+  tools: MCPTool[];
+  signal?: AbortSignal;
+  responseFormat?: ResponseFormat;
+  sampling?: SamplingParams;
+}
+
+const DEFAULT_MAX_TOOL_ROUNDS = 8;
+// Used when neither the config nor the session sets a value; `??` keeps an explicit 0
+export const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_MAX_TOKENS = 2000;
+
+export abstract class LLMProvider {
+  protected config: LLMConfig;
+
+  constructor(config: LLMConfig) {
+    this.config = config;
+  }
+
+  // Runs the tool-calling loop: each turn the model either answers or asks for tools,
+  // which are executed and fed back until it produces a final answer.
+  async generateResponse(
+    messages: Message[],
+    systemPrompt?: string,
+    options: GenerateOptions = {}
+  ): Promise<LLMResponse> {
+    const { executeTool, maxToolRounds = DEFAULT_MAX_TOOL_ROUNDS, signal, responseFormat, sampling } = options;
+    const tools = executeTool ? options.tools || [] : [];
+    const conversation = [...messages];
+    const toolInvocations: ToolInvocation[] = [];
+    const reasoning: string[] = [];
+    let usage: TokenUsage | undefined;
+    let repaired = false;
+
+    for (let round = 0; ; round++) {
+      const response = await this.completeTurn({ messages: conversation, systemPrompt, tools, signal, responseFormat, sampling });
+      if (response.usage) {
+        usage = addUsage(usage, response.usage);
+      }
+      if (response.reasoning) {
+        reasoning.push(response.reasoning);
+      }
+
+      if (!executeTool || !response.toolCalls?.length) {
+        const structured = responseFormat ? parseStructuredReply(response.content, responseFormat) : undefined;
+        if (structured && structured.errors.length > 0 && !repaired) {
+          repaired = true;
+          conversation.push(...createRepairMessages(response.content, structured));
+          continue;
+        }
+        return {
+          content: response.content,
+          toolInvocations,
+          provider: response.provider,
+          model: response.model,
+          usage,
+          structured,
+          reasoning: reasoning.length ? reasoning.join('\n\n') : undefined
+        };
+      }
+
+      if (round >= maxToolRounds) {
+        throw new Error(`Model kept requesting tools after ${maxToolRounds} rounds without answering`);
+      }
+
+      const toolResults: ToolResult[] = [];
+      for (const call of response.toolCalls) {
+        const result = await executeTool(call);
+        toolResults.push(result);
+        toolInvocations.push(toInvocation(call, result));
+      }
+
+      conversation.push(
+        createLoopMessage('assistant', response.content, {
+          toolCalls: response.toolCalls,
+          reasoning: response.reasoning,
+          reasoningSignature: response.reasoningSignature
+        }),
+        createLoopMessage('tool', '', { toolResults })
+      );
+    }
+  }
+
+  // Streaming counterpart of generateResponse: yields text deltas as they arrive,
+  // plus tool calls and their results between turns.
+  async *streamResponse(
+    messages: Message[],
+    systemPrompt?: string,
+    options: GenerateOptions = {}
+  ): AsyncGenerator<LLMStreamDelta> {
+    const { executeTool, maxToolRounds = DEFAULT_MAX_TOOL_ROUNDS, signal, responseFormat, sampling } = options;
+    const tools = executeTool ? options.tools || [] : [];
+    const conversation = [...messages];
+    let repaired = false;
+
+    for (let round = 0; ; round++) {
+      let content = '';
+      let reasoning = '';
+      let reasoningSignature: string | undefined;
+      const toolCalls: ToolCall[] = [];
+
+      for await (const delta of this.streamTurn({ messages: conversation, systemPrompt, tools, signal, responseFormat, sampling })) {
+        if (delta.type === 'text') {
+          content += delta.text;
+        } else if (delta.type === 'reasoning') {
+          reasoning += delta.text;
+          reasoningSignature = delta.signature || reasoningSignature;
+        } else if (delta.type === 'tool_call') {
+          toolCalls.push(delta.call);
+        }
+        yield delta;
+      }
+
+      if (!executeTool || toolCalls.length === 0) {
+        if (!responseFormat) return;
+
+        const structured = parseStructuredReply(content, responseFormat);
+        if (structured.errors.length > 0 && !repaired) {
+          repaired = true;
+          yield { type: 'repair', errors: structured.errors };
+          conversation.push(...createRepairMessages(content, structured));
+          continue;
+        }
+        yield { type: 'structured', output: structured };
+        return;
+      }
+
+      if (round >= maxToolRounds) {
+        throw new Error(`Model kept requesting tools after ${maxToolRounds} rounds without answering`);
+      }
+
+      const toolResults: ToolResult[] = [];
+      for (const call of toolCalls) {
+        const result = await executeTool(call);
+        toolResults.push(result);
+        yield { type: 'tool_result', invocation: toInvocation(call, result) };
+      }
+
+      conversation.push(
+        createLoopMessage('assistant', content, { toolCalls, reasoning: reasoning || undefined, reasoningSignature }),
+        createLoopMessage('tool', '', { toolResults })
+      );
+    }
+  }
+
+  // The configured sampling parameters with the request's overrides applied
+  protected resolveSampling(overrides?: SamplingParams): SamplingParams {
+    return { ...pickSampling(this.config), ...pickSampling(overrides || {}) };
+  }
+
+  // A single model round trip; returns either text or the tool calls the model requested
+  abstract completeTurn(request: TurnRequest): Promise<LLMResponse>;
+  // Same round trip, streamed: text deltas first, complete tool calls once the turn ends
+  abstract streamTurn(request: TurnRequest): AsyncGenerator<LLMStreamDelta>;
+  // One vector per text, in the same order; overridden by providers with an embeddings API
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    signal?.throwIfAborted();
+    throw createLLMError('invalid_request', `${this.config.provider} has no embeddings API to embed ${texts.length} texts with`);
+  }
+  // The cheapest request that proves the key works, e.g. a model listing; throws the provider's error
+  abstract checkAccess(): Promise<void>;
+  async validateApiKey(): Promise<boolean> {
+    try {
+      await this.checkAccess();
+      return true;
+    } catch (error) {
+      console.error(`${this.config.provider} API key validation failed:`, error);
+      return false;
+    }
+  }
+  // Models the provider currently serves, with whatever details its listing API exposes
+  abstract listModels(): Promise<ModelInfo[]>;
+}
+
+const SAMPLING_KEYS: (keyof SamplingParams)[] = ['temperature', 'maxTokens', 'topP', 'topK', 'stop', 'presencePenalty', 'frequencyPenalty', 'seed'];
+
+// Only the parameters that are actually set, so an unset override never hides a configured value
+export function pickSampling(params: SamplingParams): SamplingParams {
+  const picked: Record<string, unknown> = {};
+  SAMPLING_KEYS.forEach(key => {
+    const value = key === 'stop' ? params.stop?.filter(Boolean) : params[key];
+    if (value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0)) {
+      picked[key] = value;
+    }
+  });
+  return picked as SamplingParams;
+}
+
+function toInvocation(call: ToolCall, result: ToolResult): ToolInvocation {
+  return { ...call, result: result.content, isError: result.isError };
+}
+
+// The invalid reply and the validation errors, so the model can correct itself
+function createRepairMessages(content: string, structured: StructuredOutput): Message[] {
+  return [
+    createLoopMessage('assistant', content, {}),
+    createLoopMessage('user', buildRepairPrompt(structured), {})
+  ];
+}
+
+function createLoopMessage(role: Message['role'], content: string, extra: Partial<Message>): Message {
+  return {
+    id: uuidv4(),
+    role,
+    content,
+    timestamp: new Date(),
+    ...extra
+  };
+}
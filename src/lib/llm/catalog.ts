@@ -0,0 +1,85 @@
+import { ModelInfo, ModelPricing, TokenUsage } from '@/types';
+import { getProviderDescriptor } from './registry';
+
+// Pricing, context window and capability lookups over the provider registry; safe to import from client components
+
+const FREE: ModelPricing = { input: 0, output: 0 };
+
+// Used when neither the model nor its provider declares a context window
+const FALLBACK_CONTEXT_WINDOW = 4096;
+
+export function getContextWindow(provider: string, model: string): number {
+  const providerInfo = getProviderDescriptor(provider);
+  return providerInfo?.contextWindows?.[model] ?? providerInfo?.defaultContextWindow ?? FALLBACK_CONTEXT_WINDOW;
+}
+
+// Undefined when the provider's models cannot be judged from the id alone
+export function supportsVision(provider: string, model: string): boolean | undefined {
+  const vision = getProviderDescriptor(provider)?.capabilities.vision;
+  return vision instanceof RegExp ? vision.test(model) : vision;
+}
+
+export function supportsPdf(provider: string): boolean {
+  return getProviderDescriptor(provider)?.capabilities.pdf ?? false;
+}
+
+// Offline fallback for model pickers when a provider's listing API is unreachable
+export function getStaticModels(provider: string): ModelInfo[] {
+  const providerInfo = getProviderDescriptor(provider);
+  return (providerInfo?.models || []).map(id => ({
+    id,
+    contextWindow: providerInfo?.contextWindows?.[id],
+    pricing: getModelPricing(provider, id)
+  }));
+}
+
+// Live prices reported by listing APIs (e.g. OpenRouter) for models the static table lacks
+const discoveredPricing = new Map<string, ModelPricing>();
+
+export function rememberModelPricing(provider: string, models: ModelInfo[]) {
+  models.forEach(model => {
+    if (model.pricing) {
+      discoveredPricing.set(`${provider}/${model.id}`, model.pricing);
+    }
+  });
+}
+
+export function getModelPricing(provider: string, model: string): ModelPricing | undefined {
+  // OpenRouter's free tier costs nothing per token
+  if (provider === 'openrouter' && model.endsWith(':free')) {
+    return FREE;
+  }
+  const providerInfo = getProviderDescriptor(provider);
+  return providerInfo?.pricing?.[model] ?? discoveredPricing.get(`${provider}/${model}`) ?? providerInfo?.defaultPricing;
+}
+
+// Cost in USD, or undefined when the model's price is unknown
+export function calculateCost(provider: string | undefined, model: string | undefined, usage: TokenUsage): number | undefined {
+  const pricing = provider && model ? getModelPricing(provider, model) : undefined;
+  if (!pricing) return undefined;
+
+  const cacheRead = usage.cacheReadTokens || 0;
+  const cacheWrite = usage.cacheWriteTokens || 0;
+  const uncachedPrompt = Math.max(0, usage.promptTokens - cacheRead - cacheWrite);
+
+  return (
+    uncachedPrompt * pricing.input +
+    cacheRead * (pricing.cacheRead ?? pricing.input) +
+    cacheWrite * (pricing.cacheWrite ?? pricing.input) +
+    usage.completionTokens * pricing.output
+  ) / 1_000_000;
+}
+
+export function addUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  return {
+    promptTokens: (total?.promptTokens || 0) + usage.promptTokens,
+    completionTokens: (total?.completionTokens || 0) + usage.completionTokens,
+    cacheReadTokens: (total?.cacheReadTokens || 0) + (usage.cacheReadTokens || 0),
+    cacheWriteTokens: (total?.cacheWriteTokens || 0) + (usage.cacheWriteTokens || 0)
+  };
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
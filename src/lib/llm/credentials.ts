@@ -0,0 +1,178 @@
+// This file will run on the server side only
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BuiltinProviderId, isBuiltinProvider, ProviderId } from './registry';
+
+type CredentialSource = 'env' | 'stored';
+
+// Environment variables checked (in order) for each built-in provider's API key; user-defined
+// providers only ever use keys saved from settings, so they cannot read these
+const ENV_API_KEYS: Record<BuiltinProviderId, string[]> = {
+  openai: ['OPENAI_API_KEY'],
+  anthropic: ['ANTHROPIC_API_KEY'],
+  gemini: ['GEMINI_API_KEY', 'GOOGLE_API_KEY'],
+  openrouter: ['OPENROUTER_API_KEY'],
+  groq: ['GROQ_API_KEY'],
+  together: ['TOGETHER_API_KEY'],
+  huggingface: ['HUGGINGFACE_API_KEY', 'HF_TOKEN'],
+  'openai-compatible': ['OPENAI_COMPATIBLE_API_KEY'],
+  replay: []
+};
+
+export interface ServerCredential {
+  apiKey: string;
+  source: CredentialSource;
+  endpoint?: string;
+}
+
+type StoredKeys = Partial<Record<ProviderId, string>>;
+
+// Decrypted file contents; endpoints record where a self-hosted provider's key may be sent
+interface StoredCredentials {
+  keys: StoredKeys;
+  endpoints: StoredKeys;
+}
+
+interface EncryptedFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// Server-held LLM credentials: environment variables first, then keys saved from the
+// settings dialog, which are encrypted at rest with LLM_CREDENTIALS_SECRET.
+export class ServerCredentialStore {
+  private static instance: ServerCredentialStore;
+  private stored: StoredCredentials | null = null;
+  private readonly filePath = process.env.LLM_CREDENTIALS_FILE || path.join(process.cwd(), '.data', 'llm-credentials.json');
+
+  private constructor() {}
+
+  static getInstance(): ServerCredentialStore {
+    if (!ServerCredentialStore.instance) {
+      ServerCredentialStore.instance = new ServerCredentialStore();
+    }
+    return ServerCredentialStore.instance;
+  }
+
+  canStoreKeys(): boolean {
+    return Boolean(process.env.LLM_CREDENTIALS_SECRET);
+  }
+
+  async getApiKey(provider: ProviderId): Promise<string | undefined> {
+    return (await this.getCredential(provider))?.apiKey;
+  }
+
+  // The key with where it came from; a key saved from settings for a provider whose endpoint
+  // the user picks also carries the endpoint it was entered for
+  async getCredential(provider: ProviderId): Promise<ServerCredential | undefined> {
+    const envKey = this.getEnvApiKey(provider);
+    if (envKey) return { apiKey: envKey, source: 'env' };
+
+    const { keys, endpoints } = await this.loadStored();
+    return keys[provider] ? { apiKey: keys[provider]!, source: 'stored', endpoint: endpoints[provider] } : undefined;
+  }
+
+  async getStatus(): Promise<Partial<Record<ProviderId, CredentialSource>>> {
+    const { keys: storedKeys } = await this.loadStored();
+    const status: Partial<Record<ProviderId, CredentialSource>> = {};
+
+    (Object.keys(ENV_API_KEYS) as ProviderId[]).forEach(provider => {
+      if (this.getEnvApiKey(provider)) {
+        status[provider] = 'env';
+      }
+    });
+    (Object.keys(storedKeys) as ProviderId[]).forEach(provider => {
+      if (!status[provider] && storedKeys[provider]) {
+        status[provider] = 'stored';
+      }
+    });
+
+    return status;
+  }
+
+  async setApiKey(provider: ProviderId, apiKey: string, endpoint?: string): Promise<void> {
+    if (!this.canStoreKeys()) {
+      throw new Error('Saving API keys requires LLM_CREDENTIALS_SECRET to be set on the server');
+    }
+
+    const stored = await this.loadStored();
+    stored.keys[provider] = apiKey;
+    if (endpoint) {
+      stored.endpoints[provider] = endpoint;
+    } else {
+      delete stored.endpoints[provider];
+    }
+    await this.saveStored(stored);
+  }
+
+  async deleteApiKey(provider: ProviderId): Promise<void> {
+    const stored = await this.loadStored();
+    delete stored.keys[provider];
+    delete stored.endpoints[provider];
+    await this.saveStored(stored);
+  }
+
+  private getEnvApiKey(provider: ProviderId): string | undefined {
+    if (!isBuiltinProvider(provider)) return undefined;
+    const name = ENV_API_KEYS[provider].find(envName => process.env[envName]);
+    return name ? process.env[name] : undefined;
+  }
+
+  private async loadStored(): Promise<StoredCredentials> {
+    if (this.stored) return this.stored;
+
+    const secret = process.env.LLM_CREDENTIALS_SECRET;
+    if (!secret) {
+      this.stored = { keys: {}, endpoints: {} };
+      return this.stored;
+    }
+
+    try {
+      const file = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as EncryptedFile;
+      const key = scryptSync(secret, Buffer.from(file.salt, 'base64'), 32);
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final()
+      ]).toString('utf8');
+      const data = JSON.parse(plaintext);
+      // Files written before endpoints were kept hold just the key map
+      this.stored = data.keys ? { keys: data.keys, endpoints: data.endpoints || {} } : { keys: data, endpoints: {} };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read stored LLM credentials:', error);
+      }
+      this.stored = { keys: {}, endpoints: {} };
+    }
+
+    return this.stored!;
+  }
+
+  private async saveStored(stored: StoredCredentials): Promise<void> {
+    const secret = process.env.LLM_CREDENTIALS_SECRET;
+    if (!secret) return;
+
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const key = scryptSync(secret, salt, 32);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(stored), 'utf8'), cipher.final()]);
+
+    const file: EncryptedFile = {
+      version: 1,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    this.stored = stored;
+  }
+}
@@ -0,0 +1,119 @@
+// This file will run on the server side only
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ProviderAuthStyle, ProviderDescriptor } from '@/types';
+import { CustomProviderId, isCustomProviderId, registerCustomProviders } from './registry';
+
+const CUSTOM_PROVIDER_APIS = ['openai', 'anthropic'] as const;
+const AUTH_STYLES: ProviderAuthStyle[] = ['bearer', 'x-api-key', 'api-key', 'none'];
+
+// Checks a provider definition sent from settings and keeps only the fields a user may set
+export function parseCustomProvider(input: unknown): ProviderDescriptor {
+  const data = (input || {}) as Record<string, unknown>;
+  const id = String(data.id || '');
+  const name = String(data.name || '').trim();
+  const baseUrl = String(data.baseUrl || '').trim().replace(/\/+$/, '');
+  const api = CUSTOM_PROVIDER_APIS.find(value => value === data.api);
+  const authStyle = AUTH_STYLES.find(value => value === data.authStyle);
+  const capabilities = (data.capabilities || {}) as Record<string, unknown>;
+
+  if (!isCustomProviderId(id)) {
+    throw new Error('Custom provider ids must look like "custom:my-provider"');
+  }
+  if (!name) {
+    throw new Error('A provider name is required');
+  }
+  if (!/^https?:\/\/[^\s]+$/.test(baseUrl)) {
+    throw new Error('The base URL must be an http(s) URL');
+  }
+  if (!api) {
+    throw new Error(`The API style must be one of: ${CUSTOM_PROVIDER_APIS.join(', ')}`);
+  }
+  if (!authStyle) {
+    throw new Error(`The auth style must be one of: ${AUTH_STYLES.join(', ')}`);
+  }
+
+  const defaultContextWindow = Number(data.defaultContextWindow);
+  return {
+    id,
+    name,
+    api,
+    baseUrl,
+    authStyle,
+    requiresApiKey: authStyle !== 'none' && data.requiresApiKey !== false,
+    models: Array.isArray(data.models) ? data.models.map(String).map(model => model.trim()).filter(Boolean) : [],
+    capabilities: {
+      tools: capabilities.tools !== false,
+      vision: capabilities.vision === true,
+      pdf: false
+    },
+    defaultContextWindow: defaultContextWindow > 0 ? Math.floor(defaultContextWindow) : undefined,
+    userDefined: true
+  };
+}
+
+// User-defined providers, kept on the server so the endpoint a saved key is sent to can only be
+// changed through settings, never by a chat request
+export class CustomProviderStore {
+  private static instance: CustomProviderStore;
+  private providers: ProviderDescriptor[] | null = null;
+  private readonly filePath = process.env.LLM_PROVIDERS_FILE || path.join(process.cwd(), '.data', 'llm-providers.json');
+
+  private constructor() {}
+
+  static getInstance(): CustomProviderStore {
+    if (!CustomProviderStore.instance) {
+      CustomProviderStore.instance = new CustomProviderStore();
+    }
+    return CustomProviderStore.instance;
+  }
+
+  async list(): Promise<ProviderDescriptor[]> {
+    if (this.providers) return this.providers;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      this.providers = (Array.isArray(data) ? data : []).flatMap(entry => {
+        try {
+          return [parseCustomProvider(entry)];
+        } catch (error) {
+          console.warn('⚠️ Skipping invalid custom provider:', error);
+          return [];
+        }
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read custom providers:', error);
+      }
+      this.providers = [];
+    }
+
+    registerCustomProviders(this.providers);
+    return this.providers;
+  }
+
+  async get(id: string): Promise<ProviderDescriptor | undefined> {
+    return (await this.list()).find(provider => provider.id === id);
+  }
+
+  // Adds or replaces a provider; returns the previous definition when there was one
+  async save(provider: ProviderDescriptor): Promise<ProviderDescriptor | undefined> {
+    const providers = await this.list();
+    const previous = providers.find(p => p.id === provider.id);
+    await this.write(previous
+      ? providers.map(p => p.id === provider.id ? provider : p)
+      : [...providers, provider]);
+    return previous;
+  }
+
+  async delete(id: CustomProviderId): Promise<void> {
+    await this.write((await this.list()).filter(provider => provider.id !== id));
+  }
+
+  private async write(providers: ProviderDescriptor[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(providers, null, 2));
+    this.providers = providers;
+    registerCustomProviders(providers);
+  }
+}
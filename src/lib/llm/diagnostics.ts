@@ -0,0 +1,89 @@
+// This file will run on the server side only
+import { LLMConfig, ProviderApi, ProviderDescriptor, ProviderDiagnostics } from '@/types';
+import { supportsPdf, supportsVision } from './catalog';
+import { ServerCredentialStore } from './credentials';
+import { classifyError, createLLMError, describeError, LLMError } from './errors';
+import { createServerProvider, MissingCredentialsError, resolveBaseUrl, resolveProviderDescriptor } from './server';
+
+// Where the SDKs send requests for providers the registry gives no base URL
+const SDK_ENDPOINTS: Partial<Record<ProviderApi, string>> = {
+  anthropic: 'https://api.anthropic.com',
+  gemini: 'https://generativelanguage.googleapis.com',
+  huggingface: 'https://router.huggingface.co/hf-inference'
+};
+
+function toLLMError(error: unknown): LLMError {
+  if (error instanceof LLMError) return error;
+  const message = describeError(error);
+  return createLLMError(classifyError(error, message), message);
+}
+
+// A response with an HTTP status came from the provider, so it is reachable even when it said no
+function isReachable(error: LLMError): boolean {
+  return error.status !== undefined || !['network', 'timeout'].includes(error.kind);
+}
+
+function describeEndpoint(config: LLMConfig, descriptor: ProviderDescriptor): string | undefined {
+  if (descriptor.api === 'replay') return `fixtures/llm/${config.model}.json`;
+  return resolveBaseUrl(config, descriptor) || SDK_ENDPOINTS[descriptor.api];
+}
+
+// Checks a provider the way the chat will use it: the server-held key, the resolved endpoint and the
+// selected model. Failures are part of the report rather than thrown, with the provider's own message.
+export async function diagnoseProvider(config: LLMConfig): Promise<ProviderDiagnostics> {
+  const descriptor = await resolveProviderDescriptor(config.provider);
+  if (!descriptor) {
+    throw new Error(`Unsupported LLM provider: ${config.provider}`);
+  }
+
+  const keySource = (await ServerCredentialStore.getInstance().getStatus())[config.provider] || 'none';
+  const report: ProviderDiagnostics = {
+    provider: descriptor.id,
+    providerName: descriptor.name,
+    model: config.model,
+    endpoint: describeEndpoint(config, descriptor),
+    keySource,
+    auth: 'unknown',
+    reachable: false,
+    supportsTools: descriptor.capabilities.tools,
+    supportsVision: supportsVision(descriptor.id, config.model),
+    supportsPdf: supportsPdf(descriptor.id),
+    checkedAt: new Date().toISOString()
+  };
+
+  const started = Date.now();
+  try {
+    const provider = await createServerProvider(config);
+    await provider.checkAccess();
+    report.latencyMs = Date.now() - started;
+    report.reachable = true;
+    report.auth = keySource === 'none' ? 'not_required' : 'ok';
+
+    const models = await provider.listModels();
+    report.models = models.map(model => model.id);
+    const selected = models.find(model => model.id === config.model);
+    report.modelListed = models.length > 0 ? Boolean(selected) : undefined;
+    // The live listing knows more about a model than the static catalog
+    if (selected?.capabilities?.tools !== undefined) {
+      report.supportsTools = descriptor.capabilities.tools && selected.capabilities.tools;
+    }
+    if (selected?.capabilities?.vision !== undefined) {
+      report.supportsVision = selected.capabilities.vision;
+    }
+  } catch (error) {
+    const llmError = toLLMError(error);
+    const listingFailed = report.auth !== 'unknown';
+    if (!listingFailed) {
+      report.latencyMs = Date.now() - started;
+      report.reachable = !(error instanceof MissingCredentialsError) && isReachable(llmError);
+      report.auth = error instanceof MissingCredentialsError ? 'missing' : llmError.kind === 'auth' ? 'rejected' : 'unknown';
+    }
+    report.error = {
+      message: listingFailed ? `Model listing failed: ${llmError.message}` : llmError.message,
+      kind: llmError.kind,
+      status: llmError.status
+    };
+  }
+
+  return report;
+}
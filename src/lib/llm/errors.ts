@@ -0,0 +1,163 @@
+import { LLMErrorKind } from '@/types';
+
+interface LLMErrorOptions {
+  status?: number;
+  retryAfterMs?: number;
+}
+
+// A failed model request, keeping the upstream HTTP status and Retry-After hint when known.
+// The kind says what went wrong in terms the UI can act on; subclasses exist for instanceof checks.
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, kind: LLMErrorKind = 'unknown', options: LLMErrorOptions = {}) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class AuthenticationError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super(message, 'auth', options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class RateLimitError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super(message, 'rate_limit', options);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class QuotaExceededError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super(message, 'quota', options);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class ContextLengthError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super(message, 'context_length', options);
+    this.name = 'ContextLengthError';
+  }
+}
+
+export class ContentFilterError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super(message, 'content_filter', options);
+    this.name = 'ContentFilterError';
+  }
+}
+
+export class ModelNotFoundError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super(message, 'model_not_found', options);
+    this.name = 'ModelNotFoundError';
+  }
+}
+
+export class NetworkError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super(message, 'network', options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super(message, 'timeout', options);
+    this.name = 'TimeoutError';
+  }
+}
+
+const ERROR_CLASSES: Partial<Record<LLMErrorKind, new (message: string, options?: LLMErrorOptions) => LLMError>> = {
+  auth: AuthenticationError,
+  rate_limit: RateLimitError,
+  quota: QuotaExceededError,
+  context_length: ContextLengthError,
+  content_filter: ContentFilterError,
+  model_not_found: ModelNotFoundError,
+  network: NetworkError,
+  timeout: TimeoutError
+};
+
+// Rebuilds the right subclass, e.g. from the kind the API routes send to the browser
+export function createLLMError(kind: LLMErrorKind | undefined, message: string, options: LLMErrorOptions = {}): LLMError {
+  const ErrorClass = kind ? ERROR_CLASSES[kind] : undefined;
+  return ErrorClass ? new ErrorClass(message, options) : new LLMError(message, kind || classifyStatus(options.status), options);
+}
+
+// Rate limits, timeouts, dropped connections and server-side failures are worth retrying;
+// bad requests, auth errors and exhausted quotas are not
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof LLMError)) return false;
+  return ['rate_limit', 'timeout', 'network', 'server_error'].includes(error.kind);
+}
+
+// Pulls a readable message out of whatever an SDK threw, instead of "[object Object]"
+export function describeError(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'string') return error;
+  if (error && typeof error === 'object') {
+    const details = error as { message?: unknown; error?: unknown };
+    if (typeof details.message === 'string') return details.message;
+    if (typeof details.error === 'string') return details.error;
+    if (details.error && typeof details.error === 'object') return describeError(details.error);
+    try {
+      return JSON.stringify(error);
+    } catch {
+      return 'Unknown error';
+    }
+  }
+  return String(error);
+}
+
+const AUTH_PATTERN = /invalid[_ ]?(api[_ ]?)?key|api key not valid|incorrect api key|unauthori[sz]ed|authentication|permission denied/i;
+const QUOTA_PATTERN = /insufficient_quota|quota|billing|credit balance|payment required|exceeded your current/i;
+// Only these make a 429 a spent quota; Gemini's plain rate limit also says "check quota"
+const RATE_LIMIT_QUOTA_PATTERN = /insufficient_quota|billing/i;
+const CONTEXT_PATTERN = /context[_ ]length|context window|maximum context|prompt is too long|too many tokens|input is too long|exceeds the (maximum|context)|token limit/i;
+// OpenAI/Azure filter codes, Anthropic's policy wording and Gemini's SAFETY / PROHIBITED_CONTENT block reasons
+const CONTENT_FILTER_PATTERN = /content[_ ]?(filter|policy|management)|blocked due to|block[_ ]?reason|finish[_ ]?reason\W{0,3}safety|prohibited_content|moderation|flagged/i;
+const MODEL_NOT_FOUND_PATTERN = /model[_ ]not[_ ]found|(model|deployment).{0,40}(not found|does not exist|not exist)|unknown model|no such model/i;
+const NETWORK_PATTERN = /ECONNREFUSED|ENOTFOUND|ECONNRESET|EAI_AGAIN|fetch failed|socket hang up|network/i;
+const TIMEOUT_PATTERN = /timed? ?out|ETIMEDOUT/i;
+
+function classifyStatus(status: number | undefined): LLMErrorKind {
+  if (status === undefined) return 'unknown';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 402) return 'quota';
+  if (status === 404) return 'model_not_found';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server_error';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown';
+}
+
+// Works out the kind from the HTTP status first; the provider's wording only decides the vague
+// ones (a 400 may be a bad key at Gemini or a context overflow anywhere) and errors with no status
+export function classifyError(error: unknown, message: string, status?: number): LLMErrorKind {
+  const details = (error || {}) as { name?: string; code?: unknown; type?: unknown };
+  const text = `${details.name || ''} ${details.code || ''} ${details.type || ''} ${message}`;
+
+  // OpenAI answers an exhausted quota with a 429 too, but says so
+  if (status === 429) return RATE_LIMIT_QUOTA_PATTERN.test(text) ? 'quota' : 'rate_limit';
+  if (status !== undefined && status !== 400 && status !== 403) return classifyStatus(status);
+
+  if (AUTH_PATTERN.test(text)) return 'auth';
+  if (QUOTA_PATTERN.test(text)) return 'quota';
+  if (CONTEXT_PATTERN.test(text)) return 'context_length';
+  if (CONTENT_FILTER_PATTERN.test(text)) return 'content_filter';
+  if (MODEL_NOT_FOUND_PATTERN.test(text)) return 'model_not_found';
+  if (status === undefined && TIMEOUT_PATTERN.test(text)) return 'timeout';
+  if (status === undefined && (/APIConnectionError/.test(details.name || '') || NETWORK_PATTERN.test(text))) return 'network';
+  return classifyStatus(status);
+}
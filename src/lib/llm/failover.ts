@@ -0,0 +1,147 @@
+import { LLMConfig, LLMResponse, LLMStreamDelta, ModelInfo } from '@/types';
+import { LLMProvider, TurnRequest } from './base';
+import { isTransientError, LLMError } from './errors';
+
+export interface ProviderChainEntry {
+  config: LLMConfig;
+  provider: LLMProvider;
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+// Runs each model turn against an ordered chain of providers: transient errors are retried
+// with exponential backoff, and once a provider gives up the next one in the chain takes over.
+export class FailoverLLMProvider extends LLMProvider {
+  private chain: ProviderChainEntry[];
+  private retryPolicy: RetryPolicy;
+
+  constructor(chain: ProviderChainEntry[], retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY) {
+    if (chain.length === 0) {
+      throw new Error('Failover chain needs at least one provider');
+    }
+    super(chain[0].config);
+    this.chain = chain;
+    this.retryPolicy = retryPolicy;
+  }
+
+  async completeTurn(request: TurnRequest): Promise<LLMResponse> {
+    let lastError: unknown;
+
+    for (const [index, entry] of this.chain.entries()) {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const response = await entry.provider.completeTurn(request);
+          return { ...response, provider: entry.config.provider, model: entry.config.model };
+        } catch (error) {
+          if (request.signal?.aborted) throw error;
+          lastError = error;
+          if (!(await this.waitBeforeRetry(entry, error, attempt, request.signal))) break;
+        }
+      }
+      this.logFailover(index);
+    }
+
+    throw lastError;
+  }
+
+  async *streamTurn(request: TurnRequest): AsyncGenerator<LLMStreamDelta> {
+    let lastError: unknown;
+
+    for (const [index, entry] of this.chain.entries()) {
+      for (let attempt = 0; ; attempt++) {
+        let started = false;
+        try {
+          for await (const delta of entry.provider.streamTurn(request)) {
+            if (!started) {
+              started = true;
+              yield { type: 'provider', provider: entry.config.provider, model: entry.config.model };
+            }
+            yield delta;
+          }
+          if (!started) {
+            yield { type: 'provider', provider: entry.config.provider, model: entry.config.model };
+          }
+          return;
+        } catch (error) {
+          // Once output has reached the caller, retrying would duplicate it
+          if (started || request.signal?.aborted) throw error;
+          lastError = error;
+          if (!(await this.waitBeforeRetry(entry, error, attempt, request.signal))) break;
+        }
+      }
+      this.logFailover(index);
+    }
+
+    throw lastError;
+  }
+
+  async checkAccess(): Promise<void> {
+    await this.chain[0].provider.checkAccess();
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    return await this.chain[0].provider.listModels();
+  }
+
+  // Sleeps before the next attempt; false means give up on this provider
+  private async waitBeforeRetry(
+    entry: ProviderChainEntry,
+    error: unknown,
+    attempt: number,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    if (!isTransientError(error) || attempt >= this.retryPolicy.maxRetries) {
+      return false;
+    }
+
+    const { baseDelayMs, maxDelayMs } = this.retryPolicy;
+    const retryAfterMs = error instanceof LLMError ? error.retryAfterMs : undefined;
+    // A provider asking us to wait longer than we are willing to is treated as unavailable
+    if (retryAfterMs !== undefined && retryAfterMs > maxDelayMs) {
+      return false;
+    }
+
+    const backoffMs = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.8 + Math.random() * 0.4);
+    const delayMs = retryAfterMs ?? backoffMs;
+    console.warn(`⏳ ${entry.config.provider}/${entry.config.model} failed (attempt ${attempt + 1}), retrying in ${Math.round(delayMs)}ms:`, error);
+    await sleep(delayMs, signal);
+    return true;
+  }
+
+  private logFailover(index: number) {
+    const next = this.chain[index + 1];
+    if (next) {
+      const failed = this.chain[index].config;
+      console.warn(`🔀 ${failed.provider}/${failed.model} unavailable, failing over to ${next.config.provider}/${next.config.model}`);
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
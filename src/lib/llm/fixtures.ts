@@ -0,0 +1,71 @@
+// This file will run on the server side only
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LLMFixture, RecordedExchange } from './replay';
+
+// Fixture names become file names, so they are kept to a safe slug
+function toFixtureFile(dir: string, name: string): string {
+  if (!/^[a-zA-Z0-9][a-zA-Z0-9_-]*$/.test(name)) {
+    throw new Error(`Invalid fixture name: ${name}`);
+  }
+  return path.join(dir, `${name}.json`);
+}
+
+// Recorded LLM exchanges on disk, one JSON file per fixture; the directory is committed so
+// demos and tests can replay them without any key or network
+export class FixtureStore {
+  private static instance: FixtureStore;
+  private readonly dir = process.env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'llm');
+  // Recordings append to the same file from concurrent requests, so writes are chained
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  static getInstance(): FixtureStore {
+    if (!FixtureStore.instance) {
+      FixtureStore.instance = new FixtureStore();
+    }
+    return FixtureStore.instance;
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.dir);
+      return files.filter(file => file.endsWith('.json')).map(file => file.slice(0, -'.json'.length)).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to list LLM fixtures:', error);
+      }
+      return [];
+    }
+  }
+
+  // Read on every call so fixtures can be edited while the server runs
+  async load(name: string): Promise<LLMFixture> {
+    const data = JSON.parse(await fs.readFile(toFixtureFile(this.dir, name), 'utf8'));
+    if (data?.version !== 1 || !Array.isArray(data.exchanges)) {
+      throw new Error(`Fixture ${name} is not a version 1 LLM fixture`);
+    }
+    return data as LLMFixture;
+  }
+
+  // Adds a recorded turn, replacing an earlier recording of the same conversation
+  append(name: string, exchange: RecordedExchange): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const file = toFixtureFile(this.dir, name);
+      let fixture: LLMFixture = { version: 1, exchanges: [] };
+      try {
+        fixture = await this.load(name);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+
+      fixture.exchanges = [...fixture.exchanges.filter(existing => existing.key !== exchange.key), exchange];
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(file, JSON.stringify(fixture, null, 2));
+    });
+    // One failed write must not block the ones after it
+    this.writeQueue = write.catch(() => {});
+    return write;
+  }
+}
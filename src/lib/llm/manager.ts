@@ -0,0 +1,81 @@
+import { LLMConfig, LLMResponse, LLMStreamDelta, Message } from '@/types';
+import { GenerateOptions, LLMProvider } from './base';
+import { FailoverLLMProvider, ProviderChainEntry } from './failover';
+import { RemoteLLMProvider } from './remote';
+
+export class LLMManager {
+  private currentProvider: LLMProvider | null = null;
+  private config: LLMConfig | null = null;
+  private fallbackConfigs: LLMConfig[] = [];
+
+  async setProvider(config: LLMConfig): Promise<void> {
+    await this.setProviders([config]);
+  }
+
+  // The first config is the primary provider; the rest are tried in order when it keeps failing
+  async setProviders(configs: LLMConfig[]): Promise<void> {
+    const [primaryConfig, ...fallbackConfigs] = configs;
+    if (!primaryConfig) {
+      throw new Error('No LLM provider configured');
+    }
+
+    try {
+      const primary = new RemoteLLMProvider(primaryConfig);
+      
+      // Validate the server-side API key
+      const isValid = await primary.validateApiKey();
+      if (!isValid) {
+        throw new Error('Invalid API key');
+      }
+
+      // Fallbacks that cannot be validated are left out rather than failing the whole setup
+      const fallbacks = await Promise.all(fallbackConfigs.map(async (config): Promise<ProviderChainEntry | null> => {
+        const provider = new RemoteLLMProvider(config);
+        if (await provider.validateApiKey()) {
+          return { config, provider };
+        }
+        console.warn(`⚠️ Skipping fallback ${config.provider}/${config.model}: validation failed`);
+        return null;
+      }));
+      const chain = [
+        { config: primaryConfig, provider: primary },
+        ...fallbacks.filter((entry): entry is ProviderChainEntry => entry !== null)
+      ];
+
+      this.currentProvider = new FailoverLLMProvider(chain);
+      this.config = primaryConfig;
+      this.fallbackConfigs = chain.slice(1).map(entry => entry.config);
+    } catch (error) {
+      console.error('Failed to set LLM provider:', error);
+      throw error;
+    }
+  }
+
+  async generateResponse(messages: Message[], systemPrompt?: string, options?: GenerateOptions): Promise<LLMResponse> {
+    if (!this.currentProvider) {
+      throw new Error('No LLM provider configured');
+    }
+
+    return await this.currentProvider.generateResponse(messages, systemPrompt, options);
+  }
+
+  streamResponse(messages: Message[], systemPrompt?: string, options?: GenerateOptions): AsyncGenerator<LLMStreamDelta> {
+    if (!this.currentProvider) {
+      throw new Error('No LLM provider configured');
+    }
+
+    return this.currentProvider.streamResponse(messages, systemPrompt, options);
+  }
+
+  getCurrentConfig(): LLMConfig | null {
+    return this.config;
+  }
+
+  getFallbackConfigs(): LLMConfig[] {
+    return this.fallbackConfigs;
+  }
+
+  isConfigured(): boolean {
+    return this.currentProvider !== null && this.config !== null;
+  }
+}
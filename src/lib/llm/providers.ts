@@ -1,340 +1,1216 @@
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { Content, EnhancedGenerateContentResponse, FunctionCall, FunctionDeclarationSchema, GenerationConfig, GenerativeModel, GoogleGenerativeAI, Part, ResponseSchema, Tool, UsageMetadata } from '@google/generative-ai';
 import { HfInference } from '@huggingface/inference';
-import { LLMConfig, Message } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+import { createHash } from 'crypto';
+import { AttachmentRef, LLMConfig, LLMResponse, LLMStreamDelta, MCPTool, Message, ModelInfo, ProviderDescriptor, ResponseFormat, SamplingParams, TokenUsage, ToolCall } from '@/types';
+import { isTextMimeType } from '@/lib/memory/attachments';
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, LLMProvider, TurnRequest } from './base';
+import { classifyError, ContentFilterError, createLLMError, describeError, LLMError } from './errors';
+import { getModelPricing, supportsVision } from './catalog';
+import { BuiltinProviderId, getProviderDescriptor, getProviders, isBuiltinProvider } from './registry';
+import { withSchemaInstruction } from './structured';
+import { separateThinkTags, splitThinkTags } from './reasoning';
+import { ReplayLLMProvider } from './replay';
+import { FixtureStore } from './fixtures';
 
-export abstract class LLMProvider {
-  protected config: LLMConfig;
+// This file will run on the server side only: API keys are injected by the /api/llm routes
+export { LLMProvider } from './base';
+export type { GenerateOptions, TurnRequest } from './base';
 
-  constructor(config: LLMConfig) {
-    this.config = config;
+// Small models on Hugging Face's free inference tier get a shorter default reply
+const DEFAULT_HF_MAX_TOKENS = 500;
+
+// Wraps an SDK error as a typed LLMError, keeping the HTTP status and Retry-After so the failover chain
+// can tell transient failures apart and the UI can suggest a fix
+function toProviderError(label: string, error: unknown): LLMError {
+  // Already classified, e.g. a content filter hit detected while reading the response
+  if (error instanceof LLMError) return error;
+
+  const details = (error || {}) as { status?: unknown; headers?: unknown };
+  const status = typeof details.status === 'number' ? details.status : undefined;
+  const message = describeError(error);
+  return createLLMError(classifyError(error, message, status), `${label} API error: ${message}`, {
+    status,
+    retryAfterMs: parseRetryAfter(readHeader(details.headers, 'retry-after'))
+  });
+}
+
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') return undefined;
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
   }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : undefined;
+}
 
-  abstract generateResponse(messages: Message[], systemPrompt?: string): Promise<string>;
-  abstract validateApiKey(): Promise<boolean>;
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
 }
 
-export class OpenAIProvider extends LLMProvider {
-  private client: OpenAI;
+function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : {};
+  } catch {
+    console.warn('Failed to parse tool call arguments:', raw);
+    return {};
+  }
+}
 
-  constructor(config: LLMConfig) {
-    super(config);
-    this.client = new OpenAI({
-      apiKey: config.apiKey,
-      dangerouslyAllowBrowser: true
+// Attachments arrive with their base64 payload filled in by the browser
+function attachmentData(part: AttachmentRef): string {
+  if (!part.data) {
+    throw new Error(`Attachment ${part.name} was sent without its contents`);
+  }
+  return part.data;
+}
+
+function attachmentDataUrl(part: AttachmentRef): string {
+  return `data:${part.mimeType};base64,${attachmentData(part)}`;
+}
+
+// Text files are inlined for every provider, fenced and labelled with their file name
+function attachmentAsText(part: AttachmentRef): string {
+  const text = Buffer.from(attachmentData(part), 'base64').toString('utf8');
+  return `Attached file ${part.name}:\n\`\`\`\n${text}\n\`\`\``;
+}
+
+function hasAttachments(msg: Message): boolean {
+  return Boolean(msg.parts?.some(part => part.type !== 'text'));
+}
+
+// OpenAI-compatible chat format (OpenAI, OpenRouter, Groq, Together)
+function toOpenAIMessages(messages: Message[], systemPrompt?: string): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const openAIMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+
+  if (systemPrompt) {
+    openAIMessages.push({
+      role: 'system',
+      content: systemPrompt
     });
   }
 
-  async generateResponse(messages: Message[], systemPrompt?: string): Promise<string> {
-    try {
-      const openAIMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-      
-      if (systemPrompt) {
+  messages.forEach(msg => {
+    if (msg.role === 'system') return;
+
+    if (msg.role === 'tool') {
+      (msg.toolResults || []).forEach(result => {
         openAIMessages.push({
-          role: 'system',
-          content: systemPrompt
+          role: 'tool',
+          tool_call_id: result.toolCallId,
+          content: result.content
         });
-      }
-
-      messages.forEach(msg => {
-        if (msg.role !== 'system') {
-          openAIMessages.push({
-            role: msg.role as 'user' | 'assistant',
-            content: msg.content
-          });
-        }
       });
+      return;
+    }
 
-      const response = await this.client.chat.completions.create({
-        model: this.config.model,
-        messages: openAIMessages,
-        temperature: this.config.temperature || 0.7,
-        max_tokens: this.config.maxTokens || 2000,
-        stream: false
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      openAIMessages.push({
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function' as const,
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments)
+          }
+        }))
       });
+      return;
+    }
 
-      return response.choices[0]?.message?.content || '';
-    } catch (error) {
-      console.error('OpenAI API error:', error);
-      throw new Error(`OpenAI API error: ${error}`);
+    if (msg.role === 'user' && hasAttachments(msg)) {
+      openAIMessages.push({ role: 'user', content: toOpenAIContentParts(msg) });
+      return;
     }
-  }
 
-  async validateApiKey(): Promise<boolean> {
-    try {
-      await this.client.models.list();
-      return true;
-    } catch (error) {
-      console.error('OpenAI API key validation failed:', error);
-      return false;
+    openAIMessages.push({
+      role: msg.role,
+      content: msg.content
+    });
+  });
+
+  return openAIMessages;
+}
+
+// OpenAI caches prompt prefixes of 1024 tokens or more by itself; the key sends requests with the same
+// system prompt and tools to the same cache, so consecutive turns of a chat actually hit it
+function toOpenAIPromptCacheKey(systemPrompt: string | undefined, tools: MCPTool[]): string {
+  const hash = createHash('sha256').update(JSON.stringify({ systemPrompt: systemPrompt || '', tools: toOpenAITools(tools) || [] }));
+  return `mcp-chat-${hash.digest('hex').slice(0, 32)}`;
+}
+
+type OpenAICacheableTextPart = OpenAI.Chat.ChatCompletionContentPartText & { cache_control?: { type: 'ephemeral' } };
+
+// Anthropic-style cache marks for APIs that pass them on (OpenRouter). They only fit on text parts,
+// so the system prompt and the latest user message are sent as parts with the mark on the last one
+function withOpenAICacheBreakpoints(messages: OpenAI.Chat.ChatCompletionMessageParam[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const lastUser = messages.map(msg => msg.role).lastIndexOf('user');
+  return messages.map((msg, index) => {
+    if (msg.role === 'system' && index === 0 && typeof msg.content === 'string') {
+      return { ...msg, content: [withOpenAICacheControl({ type: 'text', text: msg.content })] };
+    }
+    if (msg.role !== 'user' || index !== lastUser || !msg.content) return msg;
+    if (typeof msg.content === 'string') {
+      return { ...msg, content: [withOpenAICacheControl({ type: 'text', text: msg.content })] };
+    }
+    const content = [...msg.content];
+    const lastPart = content[content.length - 1];
+    if (lastPart?.type !== 'text') return msg;
+    content[content.length - 1] = withOpenAICacheControl(lastPart);
+    return { ...msg, content };
+  });
+}
+
+function withOpenAICacheControl(part: OpenAI.Chat.ChatCompletionContentPartText): OpenAICacheableTextPart {
+  return { ...part, cache_control: { type: 'ephemeral' } };
+}
+
+function toOpenAIContentParts(msg: Message): OpenAI.Chat.ChatCompletionContentPart[] {
+  return (msg.parts || []).map((part): OpenAI.Chat.ChatCompletionContentPart => {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text };
     }
+    if (part.type === 'image') {
+      return { type: 'image_url', image_url: { url: attachmentDataUrl(part) } };
+    }
+    if (isTextMimeType(part.mimeType)) {
+      return { type: 'text', text: attachmentAsText(part) };
+    }
+    return { type: 'file', file: { filename: part.name, file_data: attachmentDataUrl(part) } };
+  });
+}
+
+function toOpenAITools(tools: MCPTool[]): OpenAI.Chat.ChatCompletionTool[] | undefined {
+  if (tools.length === 0) return undefined;
+
+  return tools.map(tool => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema
+    }
+  }));
+}
+
+function toOpenAISampling(sampling: SamplingParams, descriptor: ProviderDescriptor) {
+  return {
+    temperature: sampling.temperature ?? DEFAULT_TEMPERATURE,
+    max_tokens: sampling.maxTokens ?? DEFAULT_MAX_TOKENS,
+    top_p: sampling.topP,
+    stop: sampling.stop,
+    presence_penalty: sampling.presencePenalty,
+    frequency_penalty: sampling.frequencyPenalty,
+    seed: sampling.seed,
+    // Not part of OpenAI's own API, which rejects it
+    ...(descriptor.capabilities.topK && sampling.topK !== undefined ? { top_k: sampling.topK } : {})
+  };
+}
+
+function toOpenAIResponseFormat(format: ResponseFormat | undefined): OpenAI.ResponseFormatJSONSchema | undefined {
+  if (!format) return undefined;
+  // Strict mode would reject most hand-written schemas (it needs additionalProperties: false everywhere)
+  return { type: 'json_schema', json_schema: { name: format.name, schema: format.schema, strict: false } };
+}
+
+// DeepSeek, vLLM and SGLang return reasoning as reasoning_content; OpenRouter, Groq and Ollama as reasoning
+function readOpenAIReasoning(message: object | null | undefined): string | undefined {
+  const fields = (message || {}) as { reasoning_content?: unknown; reasoning?: unknown };
+  const reasoning = fields.reasoning_content ?? fields.reasoning;
+  return typeof reasoning === 'string' && reasoning ? reasoning : undefined;
+}
+
+function fromOpenAICompletion(completion: OpenAI.Chat.ChatCompletion): LLMResponse {
+  const message = completion.choices[0]?.message;
+  if (completion.choices[0]?.finish_reason === 'content_filter' && !message?.content) {
+    throw new ContentFilterError('The response was blocked by the provider\'s content filter');
   }
+  const toolCalls: ToolCall[] = (message?.tool_calls || [])
+    .filter(call => call.type === 'function')
+    .map(call => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: parseToolArguments(call.function.arguments)
+    }));
+
+  const { content, reasoning } = splitThinkTags(message?.content || '');
+  return {
+    content,
+    toolCalls,
+    usage: fromOpenAIUsage(completion.usage),
+    reasoning: readOpenAIReasoning(message) ?? reasoning
+  };
 }
 
-export class AnthropicProvider extends LLMProvider {
-  private client: Anthropic;
+function fromOpenAIUsage(usage: OpenAI.CompletionUsage | null | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    // DeepSeek reports its cache hits in a field of its own
+    cacheReadTokens: usage.prompt_tokens_details?.cached_tokens
+      || (usage as { prompt_cache_hit_tokens?: number }).prompt_cache_hit_tokens
+      || undefined
+  };
+}
 
-  constructor(config: LLMConfig) {
-    super(config);
-    this.client = new Anthropic({
-      apiKey: config.apiKey,
-      dangerouslyAllowBrowser: true
+async function* readOpenAIStream(stream: AsyncIterable<OpenAI.Chat.ChatCompletionChunk>): AsyncGenerator<LLMStreamDelta> {
+  // Tool call fragments arrive keyed by index and must be stitched together
+  const pendingCalls = new Map<number, { id: string; name: string; arguments: string }>();
+  let usage: TokenUsage | undefined;
+  let hasText = false;
+
+  for await (const chunk of stream) {
+    // With include_usage the last chunk carries the usage block and no choices
+    if (chunk.usage) {
+      usage = fromOpenAIUsage(chunk.usage);
+    }
+
+    if (chunk.choices[0]?.finish_reason === 'content_filter' && !hasText) {
+      throw new ContentFilterError('The response was blocked by the provider\'s content filter');
+    }
+
+    const delta = chunk.choices[0]?.delta;
+    if (!delta) continue;
+
+    const reasoning = readOpenAIReasoning(delta);
+    if (reasoning) {
+      yield { type: 'reasoning', text: reasoning };
+    }
+
+    if (delta.content) {
+      hasText = true;
+      yield { type: 'text', text: delta.content };
+    }
+
+    (delta.tool_calls || []).forEach(fragment => {
+      const current = pendingCalls.get(fragment.index) || { id: '', name: '', arguments: '' };
+      pendingCalls.set(fragment.index, {
+        id: current.id || fragment.id || '',
+        name: current.name || fragment.function?.name || '',
+        arguments: current.arguments + (fragment.function?.arguments || '')
+      });
     });
   }
 
-  async generateResponse(messages: Message[], systemPrompt?: string): Promise<string> {
-    try {
-      const anthropicMessages: Anthropic.MessageParam[] = messages
-        .filter(msg => msg.role !== 'system')
-        .map(msg => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content
-        }));
-
-      const response = await this.client.messages.create({
-        model: this.config.model,
-        max_tokens: this.config.maxTokens || 2000,
-        temperature: this.config.temperature || 0.7,
-        system: systemPrompt,
-        messages: anthropicMessages
+  for (const call of pendingCalls.values()) {
+    yield {
+      type: 'tool_call',
+      call: {
+        id: call.id || uuidv4(),
+        name: call.name,
+        arguments: parseToolArguments(call.arguments)
+      }
+    };
+  }
+
+  if (usage) {
+    yield { type: 'usage', usage };
+  }
+}
+
+function toAnthropicMessages(messages: Message[]): Anthropic.MessageParam[] {
+  const anthropicMessages: Anthropic.MessageParam[] = [];
+
+  messages.forEach(msg => {
+    if (msg.role === 'system') return;
+
+    if (msg.role === 'tool') {
+      anthropicMessages.push({
+        role: 'user',
+        content: (msg.toolResults || []).map(result => ({
+          type: 'tool_result' as const,
+          tool_use_id: result.toolCallId,
+          content: result.content,
+          is_error: result.isError
+        }))
       });
+      return;
+    }
 
-      return response.content[0]?.type === 'text' ? response.content[0].text : '';
-    } catch (error) {
-      console.error('Anthropic API error:', error);
-      throw new Error(`Anthropic API error: ${error}`);
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      const content: Anthropic.ContentBlockParam[] = [];
+      // With extended thinking on, the API requires the signed thinking that led to the tool calls
+      if (msg.reasoning && msg.reasoningSignature) {
+        content.push({ type: 'thinking', thinking: msg.reasoning, signature: msg.reasoningSignature });
+      }
+      if (msg.content) {
+        content.push({ type: 'text', text: msg.content });
+      }
+      msg.toolCalls.forEach(call => {
+        content.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+      });
+      anthropicMessages.push({ role: 'assistant', content });
+      return;
     }
+
+    if (msg.role === 'user' && hasAttachments(msg)) {
+      anthropicMessages.push({ role: 'user', content: toAnthropicContentBlocks(msg) });
+      return;
+    }
+
+    anthropicMessages.push({
+      role: msg.role,
+      content: msg.content
+    });
+  });
+
+  return anthropicMessages;
+}
+
+// Anthropic caches the request up to each block marked with cache_control, allowing four marks per request:
+// the tool definitions, the system prompt and two in the conversation are used here
+const ANTHROPIC_CACHE_CONTROL: Anthropic.CacheControlEphemeral = { type: 'ephemeral' };
+
+function toAnthropicSystem(systemPrompt?: string): Anthropic.TextBlockParam[] | undefined {
+  return systemPrompt ? [{ type: 'text', text: systemPrompt, cache_control: ANTHROPIC_CACHE_CONTROL }] : undefined;
+}
+
+// Marks the newest message, so the next tool round or turn reads the whole conversation from the cache,
+// and the user turn before it, where the previous request left its mark
+function withAnthropicCacheBreakpoints(messages: Anthropic.MessageParam[]): Anthropic.MessageParam[] {
+  const last = messages.length - 1;
+  const previousUser = messages.slice(0, last).map(msg => msg.role).lastIndexOf('user');
+  return messages.map((msg, index) => index === last || index === previousUser ? withAnthropicCacheBreakpoint(msg) : msg);
+}
+
+// Thinking blocks cannot be marked, so the mark goes on the last block that can take it
+function withAnthropicCacheBreakpoint(msg: Anthropic.MessageParam): Anthropic.MessageParam {
+  if (typeof msg.content === 'string') {
+    return msg.content ? { ...msg, content: [{ type: 'text', text: msg.content, cache_control: ANTHROPIC_CACHE_CONTROL }] } : msg;
   }
+  const content = [...msg.content];
+  for (let i = content.length - 1; i >= 0; i--) {
+    const block = content[i];
+    if (block.type === 'thinking' || block.type === 'redacted_thinking') continue;
+    content[i] = { ...block, cache_control: ANTHROPIC_CACHE_CONTROL };
+    return { ...msg, content };
+  }
+  return msg;
+}
 
-  async validateApiKey(): Promise<boolean> {
-    try {
-      // Make a small test request to validate the API key
-      await this.client.messages.create({
-        model: this.config.model,
-        max_tokens: 1,
-        messages: [{ role: 'user', content: 'test' }]
-      });
-      return true;
-    } catch (error) {
-      console.error('Anthropic API key validation failed:', error);
-      return false;
+function toAnthropicContentBlocks(msg: Message): Anthropic.ContentBlockParam[] {
+  return (msg.parts || []).map((part): Anthropic.ContentBlockParam => {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text };
+    }
+    if (part.type === 'image') {
+      return {
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: part.mimeType as Anthropic.Base64ImageSource['media_type'],
+          data: attachmentData(part)
+        }
+      };
     }
+    if (isTextMimeType(part.mimeType)) {
+      return { type: 'text', text: attachmentAsText(part) };
+    }
+    return {
+      type: 'document',
+      title: part.name,
+      source: { type: 'base64', media_type: 'application/pdf', data: attachmentData(part) }
+    };
+  });
+}
+
+function toAnthropicTools(tools: MCPTool[]): Anthropic.Tool[] | undefined {
+  if (tools.length === 0) return undefined;
+
+  // The MCP tools rarely change between requests, unlike the output tool added after them
+  return tools.map((tool, index) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: { type: 'object' as const, ...tool.inputSchema },
+    cache_control: index === tools.length - 1 ? ANTHROPIC_CACHE_CONTROL : undefined
+  }));
+}
+
+// Claude has no JSON mode; structured output is a tool whose input is the answer, and the model
+// must call either it or one of the MCP tools
+const ANTHROPIC_OUTPUT_TOOL = 'structured_output';
+
+// Tool inputs are always objects, so any other schema is wrapped in a "value" property
+function wrapsAnthropicOutput(format: ResponseFormat): boolean {
+  return format.schema.type !== 'object';
+}
+
+// While thinking, Claude may not be forced to use a tool, so the output tool is only offered
+function toAnthropicToolParams(
+  tools: MCPTool[],
+  format: ResponseFormat | undefined,
+  thinking: boolean
+): Pick<Anthropic.MessageCreateParams, 'tools' | 'tool_choice'> {
+  if (!format) {
+    return { tools: toAnthropicTools(tools) };
   }
+
+  const outputTool: Anthropic.Tool = {
+    name: ANTHROPIC_OUTPUT_TOOL,
+    description: `Give the final answer as a ${format.name} object`,
+    input_schema: wrapsAnthropicOutput(format)
+      ? { type: 'object', properties: { value: format.schema }, required: ['value'] }
+      : { type: 'object', ...format.schema }
+  };
+  return {
+    tools: [...(toAnthropicTools(tools) || []), outputTool],
+    tool_choice: thinking ? undefined : tools.length > 0 ? { type: 'any' } : { type: 'tool', name: ANTHROPIC_OUTPUT_TOOL }
+  };
 }
 
-export class GeminiProvider extends LLMProvider {
-  private client: GoogleGenerativeAI;
+const ANTHROPIC_MIN_THINKING_BUDGET = 1024;
 
-  constructor(config: LLMConfig) {
-    super(config);
-    this.client = new GoogleGenerativeAI(config.apiKey);
+// Extended thinking stays off unless a budget is configured
+function anthropicThinkingBudget(config: LLMConfig): number | undefined {
+  return config.thinkingBudget ? Math.max(ANTHROPIC_MIN_THINKING_BUDGET, config.thinkingBudget) : undefined;
+}
+
+// Claude has no penalties or seed. While thinking, max_tokens has to cover the thinking as well as the reply,
+// and temperature and top-k cannot be changed
+function toAnthropicSampling(sampling: SamplingParams, thinkingBudget?: number) {
+  if (thinkingBudget) {
+    return {
+      max_tokens: thinkingBudget + (sampling.maxTokens ?? DEFAULT_MAX_TOKENS),
+      thinking: { type: 'enabled' as const, budget_tokens: thinkingBudget },
+      // Values below 0.95 are rejected while thinking
+      top_p: sampling.topP !== undefined && sampling.topP >= 0.95 ? sampling.topP : undefined,
+      stop_sequences: sampling.stop
+    };
   }
+  return {
+    max_tokens: sampling.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: sampling.temperature ?? DEFAULT_TEMPERATURE,
+    top_p: sampling.topP,
+    top_k: sampling.topK,
+    stop_sequences: sampling.stop
+  };
+}
 
-  async generateResponse(messages: Message[], systemPrompt?: string): Promise<string> {
-    try {
-      const model = this.client.getGenerativeModel({ model: this.config.model });
-      
-      // Convert messages to Gemini format
-      let prompt = '';
-      if (systemPrompt) {
-        prompt += `System: ${systemPrompt}\n\n`;
-      }
-      
-      messages.forEach(msg => {
-        const role = msg.role === 'user' ? 'Human' : 'Assistant';
-        prompt += `${role}: ${msg.content}\n\n`;
+function fromAnthropicMessage(message: Anthropic.Message, format?: ResponseFormat): LLMResponse {
+  // The output tool's input is the answer itself
+  const output = message.content.find(block => block.type === 'tool_use' && block.name === ANTHROPIC_OUTPUT_TOOL);
+  const content = output?.type === 'tool_use'
+    ? JSON.stringify(format && wrapsAnthropicOutput(format) ? (output.input as { value?: unknown }).value : output.input, null, 2)
+    : message.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('');
+  const thinking = message.content.filter((block): block is Anthropic.ThinkingBlock => block.type === 'thinking');
+  const toolCalls: ToolCall[] = message.content
+    .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name !== ANTHROPIC_OUTPUT_TOOL)
+    .map(block => ({
+      id: block.id,
+      name: block.name,
+      arguments: (block.input || {}) as Record<string, unknown>
+    }));
+
+  if (message.stop_reason === 'refusal' && !content) {
+    throw new ContentFilterError('Claude declined to answer this request');
+  }
+
+  return {
+    content,
+    toolCalls,
+    usage: fromAnthropicUsage(message.usage),
+    reasoning: thinking.map(block => block.thinking).join('\n\n') || undefined,
+    // A signature covers one block, and only a single block can be sent back as it was received
+    reasoningSignature: thinking.length === 1 ? thinking[0].signature : undefined
+  };
+}
+
+// Anthropic reports cached tokens separately from input_tokens; fold them into the prompt total
+function fromAnthropicUsage(usage: Anthropic.Usage): TokenUsage {
+  const cacheReadTokens = usage.cache_read_input_tokens || 0;
+  const cacheWriteTokens = usage.cache_creation_input_tokens || 0;
+  return {
+    promptTokens: usage.input_tokens + cacheReadTokens + cacheWriteTokens,
+    completionTokens: usage.output_tokens,
+    cacheReadTokens: cacheReadTokens || undefined,
+    cacheWriteTokens: cacheWriteTokens || undefined
+  };
+}
+
+function fromGeminiUsage(usage: UsageMetadata | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.promptTokenCount,
+    completionTokens: usage.candidatesTokenCount,
+    cacheReadTokens: usage.cachedContentTokenCount || undefined
+  };
+}
+
+function toGeminiContents(messages: Message[]): Content[] {
+  const contents: Content[] = [];
+
+  messages.forEach(msg => {
+    if (msg.role === 'system') return;
+
+    if (msg.role === 'tool') {
+      contents.push({
+        role: 'function',
+        parts: (msg.toolResults || []).map(result => ({
+          functionResponse: {
+            name: result.name,
+            response: { content: result.content, isError: result.isError || false }
+          }
+        }))
       });
-      
-      prompt += 'Assistant: ';
-      
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      return response.text();
-    } catch (error) {
-      console.error('Gemini API error:', error);
-      throw new Error(`Gemini API error: ${error}`);
+      return;
     }
+
+    const parts: Part[] = [];
+    if (hasAttachments(msg)) {
+      (msg.parts || []).forEach(part => {
+        if (part.type === 'text') {
+          parts.push({ text: part.text });
+        } else if (part.type === 'file' && isTextMimeType(part.mimeType)) {
+          parts.push({ text: attachmentAsText(part) });
+        } else {
+          parts.push({ inlineData: { mimeType: part.mimeType, data: attachmentData(part) } });
+        }
+      });
+    } else if (msg.content) {
+      parts.push({ text: msg.content });
+    }
+    (msg.toolCalls || []).forEach(call => {
+      parts.push({ functionCall: { name: call.name, args: call.arguments } });
+    });
+
+    // Gemini rejects turns without parts, e.g. an assistant reply that was stopped before any text
+    if (parts.length === 0) return;
+
+    contents.push({
+      role: msg.role === 'user' ? 'user' : 'model',
+      parts
+    });
+  });
+
+  return contents;
+}
+
+// Splits the conversation into chat history plus the turn to send; history has to open with a user turn,
+// which context trimming does not guarantee
+function toGeminiChat(messages: Message[]): { history: Content[]; pending: Part[] } {
+  const contents = toGeminiContents(messages);
+  const firstUserIndex = contents.findIndex(content => content.role === 'user');
+  const conversation = firstUserIndex === -1 ? [] : contents.slice(firstUserIndex);
+  const last = conversation.pop();
+
+  if (!last || last.role === 'model') {
+    throw createLLMError('invalid_request', 'Gemini needs a user message to reply to', { status: 400 });
   }
+  return { history: conversation, pending: last.parts };
+}
 
-  async validateApiKey(): Promise<boolean> {
-    try {
-      const model = this.client.getGenerativeModel({ model: this.config.model });
-      await model.generateContent('test');
-      return true;
-    } catch (error) {
-      console.error('Gemini API key validation failed:', error);
-      return false;
+// Gemini does not assign ids to function calls, so we mint our own
+function fromGeminiFunctionCall(call: FunctionCall): ToolCall {
+  return {
+    id: uuidv4(),
+    name: call.name,
+    arguments: (call.args || {}) as Record<string, unknown>
+  };
+}
+
+// Gemini accepts only an OpenAPI subset of JSON Schema, so unsupported keywords are dropped
+const GEMINI_SCHEMA_KEYS = ['type', 'format', 'description', 'nullable', 'enum', 'required'];
+
+function toGeminiSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  GEMINI_SCHEMA_KEYS.forEach(key => {
+    if (schema[key] !== undefined) {
+      result[key] = schema[key];
+    }
+  });
+
+  // Union types like ["string", "null"] become a nullable single type
+  if (Array.isArray(schema.type)) {
+    const types = schema.type as string[];
+    result.type = types.find(type => type !== 'null') || 'string';
+    if (types.includes('null')) {
+      result.nullable = true;
+    }
+  }
+
+  if (schema.properties && typeof schema.properties === 'object') {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties as Record<string, Record<string, unknown>>)
+        .map(([name, property]) => [name, toGeminiSchema(property)])
+    );
+  }
+
+  if (schema.items && typeof schema.items === 'object') {
+    result.items = toGeminiSchema(schema.items as Record<string, unknown>);
+  }
+
+  return result;
+}
+
+function toGeminiSampling(sampling: SamplingParams): GenerationConfig {
+  return {
+    temperature: sampling.temperature ?? DEFAULT_TEMPERATURE,
+    maxOutputTokens: sampling.maxTokens ?? DEFAULT_MAX_TOKENS,
+    topP: sampling.topP,
+    topK: sampling.topK,
+    stopSequences: sampling.stop,
+    presencePenalty: sampling.presencePenalty,
+    frequencyPenalty: sampling.frequencyPenalty
+  };
+}
+
+// Gemini cannot combine function calling with a JSON response type, so with tools the schema
+// is only described in the system instruction
+function toGeminiOutputConfig(
+  systemPrompt: string | undefined,
+  tools: MCPTool[],
+  format: ResponseFormat | undefined,
+  sampling: SamplingParams
+): { systemInstruction?: string; generationConfig: GenerationConfig } {
+  const generationConfig = toGeminiSampling(sampling);
+  if (!format) {
+    return { systemInstruction: systemPrompt, generationConfig };
+  }
+  if (tools.length > 0) {
+    return { systemInstruction: withSchemaInstruction(systemPrompt, format), generationConfig };
+  }
+  return {
+    systemInstruction: systemPrompt,
+    generationConfig: {
+      ...generationConfig,
+      responseMimeType: 'application/json',
+      responseSchema: toGeminiSchema(format.schema) as unknown as ResponseSchema
+    }
+  };
+}
+
+// Gemini 2.5 and later think before answering, but only return summaries of their thoughts when asked to
+function toGeminiThinkingConfig(model: string, budget?: number): { includeThoughts: boolean; thinkingBudget?: number } | undefined {
+  if (!/^gemini-(2\.5|[3-9])/.test(model)) return undefined;
+  return { includeThoughts: true, thinkingBudget: budget };
+}
+
+// Thought summaries come back as text parts flagged `thought`, which text() would mix into the answer
+function fromGeminiResponse(response: EnhancedGenerateContentResponse): { text: string; reasoning?: string } {
+  // text() also throws when the response was blocked, which must surface as an error
+  const text = response.text();
+  const parts = (response.candidates?.[0]?.content?.parts || []) as (Part & { thought?: boolean })[];
+  if (!parts.some(part => part.thought)) return { text };
+
+  return {
+    text: parts.filter(part => !part.thought).map(part => part.text || '').join(''),
+    reasoning: parts.filter(part => part.thought).map(part => part.text || '').join('') || undefined
+  };
+}
+
+function toGeminiTools(tools: MCPTool[]): Tool[] | undefined {
+  if (tools.length === 0) return undefined;
+
+  return [{
+    functionDeclarations: tools.map(tool => {
+      const parameters = toGeminiSchema(tool.inputSchema || {});
+      const hasParameters = Object.keys((parameters.properties as object) || {}).length > 0;
+
+      return {
+        name: tool.name,
+        description: tool.description,
+        parameters: hasParameters ? parameters as unknown as FunctionDeclarationSchema : undefined
+      };
+    })
+  }];
+}
+
+// Model listings: each provider reports its live models, enriched from the static catalog
+
+interface GeminiModel {
+  name: string;
+  displayName?: string;
+  inputTokenLimit?: number;
+  supportedGenerationMethods?: string[];
+}
+
+interface OpenRouterModel {
+  id: string;
+  name?: string;
+  context_length?: number;
+  // USD per token, as decimal strings
+  pricing?: { prompt?: string; completion?: string };
+  architecture?: { input_modalities?: string[] };
+  supported_parameters?: string[];
+}
+
+interface TogetherModel {
+  id: string;
+  display_name?: string;
+  type?: string;
+  context_length?: number;
+  // USD per million tokens
+  pricing?: { input?: number; output?: number };
+}
+
+// Fills in context window and price from the static catalog when the listing API omits them
+function withCatalogDetails(provider: string, model: ModelInfo): ModelInfo {
+  const providerInfo = getProviderDescriptor(provider);
+  return {
+    ...model,
+    contextWindow: model.contextWindow ?? providerInfo?.contextWindows?.[model.id],
+    pricing: model.pricing ?? getModelPricing(provider, model.id)
+  };
+}
+
+function sortModels(models: ModelInfo[]): ModelInfo[] {
+  return models.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// GET against a vendor REST API the SDK does not cover, failing with the vendor's own error message
+async function fetchProviderJson<T>(url: string, headers: Record<string, string>): Promise<T> {
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    const detail = await readErrorBody(response);
+    throw createLLMError(undefined, `${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`, {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after') ?? undefined)
+    });
+  }
+  return await response.json() as T;
+}
+
+// Google nests the message in error.message, Hugging Face sends error as a string
+async function readErrorBody(response: Response): Promise<string | undefined> {
+  const text = await response.text().catch(() => '');
+  try {
+    const data = JSON.parse(text) as { error?: string | { message?: string }; message?: string };
+    const message = typeof data.error === 'string' ? data.error : data.error?.message ?? data.message;
+    if (message) return message;
+  } catch {
+    // Not JSON; the body itself is the best description
+  }
+  return text.trim().slice(0, 300) || undefined;
+}
+
+// Keys sent in a vendor-specific header replace the SDK's bearer Authorization header
+function authHeaders(descriptor: ProviderDescriptor, apiKey?: string): Record<string, string | null> | undefined {
+  if (!apiKey || descriptor.authStyle === 'bearer' || descriptor.authStyle === 'none') return undefined;
+  return { Authorization: null, [descriptor.authStyle]: apiKey };
+}
+
+async function listOpenAIModels(client: OpenAI): Promise<ModelInfo[]> {
+  const models: ModelInfo[] = [];
+  for await (const model of client.models.list()) {
+    // The listing also contains embedding, audio and image models
+    if (!/^(gpt-|o\d|chatgpt-)/.test(model.id) || /audio|realtime|tts|transcribe|search|image|instruct/.test(model.id)) continue;
+    models.push(withCatalogDetails('openai', {
+      id: model.id,
+      capabilities: { tools: true, vision: supportsVision('openai', model.id) }
+    }));
+  }
+  return models;
+}
+
+// OpenRouter's catalog carries live context lengths, prices and supported parameters
+async function listOpenRouterModels(_client: OpenAI, apiKey?: string): Promise<ModelInfo[]> {
+  const data = await fetchProviderJson<{ data?: OpenRouterModel[] }>(
+    'https://openrouter.ai/api/v1/models',
+    { Authorization: `Bearer ${apiKey}` }
+  );
+
+  return (data.data || []).map(model => ({
+    id: model.id,
+    name: model.name,
+    contextWindow: model.context_length,
+    pricing: model.pricing ? {
+      input: Math.max(0, Number(model.pricing.prompt || 0)) * 1_000_000,
+      output: Math.max(0, Number(model.pricing.completion || 0)) * 1_000_000
+    } : undefined,
+    capabilities: {
+      vision: model.architecture?.input_modalities?.includes('image'),
+      tools: model.supported_parameters?.includes('tools')
     }
+  }));
+}
+
+async function listGroqModels(client: OpenAI): Promise<ModelInfo[]> {
+  const models: ModelInfo[] = [];
+  for await (const model of client.models.list()) {
+    // Groq extends the OpenAI model object with its context window and an active flag
+    const details = model as OpenAI.Models.Model & { context_window?: number; active?: boolean };
+    if (details.active === false || /whisper|tts|guard/.test(model.id)) continue;
+    models.push(withCatalogDetails('groq', {
+      id: model.id,
+      contextWindow: details.context_window,
+      capabilities: { tools: true, vision: supportsVision('groq', model.id) }
+    }));
   }
+  return models;
 }
 
-export class OpenRouterProvider extends LLMProvider {
+// Together returns a bare array rather than an OpenAI-style page, so it is fetched directly
+async function listTogetherModels(_client: OpenAI, apiKey?: string): Promise<ModelInfo[]> {
+  const data = await fetchProviderJson<TogetherModel[]>(
+    'https://api.together.xyz/v1/models',
+    { Authorization: `Bearer ${apiKey}` }
+  );
+
+  return data
+    .filter(model => model.type === 'chat')
+    .map(model => withCatalogDetails('together', {
+      id: model.id,
+      name: model.display_name,
+      contextWindow: model.context_length,
+      pricing: model.pricing?.input !== undefined && model.pricing.output !== undefined
+        ? { input: model.pricing.input, output: model.pricing.output }
+        : undefined,
+      capabilities: { vision: supportsVision('together', model.id) }
+    }));
+}
+
+// Vendors whose listing needs filtering or carries extra details; others use the generic /models call
+const MODEL_LISTERS: Partial<Record<BuiltinProviderId, (client: OpenAI, apiKey?: string) => Promise<ModelInfo[]>>> = {
+  openai: listOpenAIModels,
+  openrouter: listOpenRouterModels,
+  groq: listGroqModels,
+  together: listTogetherModels
+};
+
+// Any provider speaking the OpenAI chat completions API: OpenAI itself, OpenRouter, Groq, Together,
+// self-hosted servers (Ollama, llama.cpp, vLLM, LM Studio) and user-defined vendors
+export class OpenAICompatibleProvider extends LLMProvider {
   private client: OpenAI;
+  private descriptor: ProviderDescriptor;
 
-  constructor(config: LLMConfig) {
+  constructor(config: LLMConfig, descriptor: ProviderDescriptor) {
     super(config);
+    const baseUrl = config.baseUrl || descriptor.baseUrl;
+    if (!baseUrl) {
+      throw new Error(`${descriptor.name} requires a base URL`);
+    }
+    this.descriptor = descriptor;
     this.client = new OpenAI({
-      apiKey: config.apiKey,
-      baseURL: 'https://openrouter.ai/api/v1',
-      dangerouslyAllowBrowser: true
+      // Keyless endpoints get a placeholder so the SDK never falls back to OPENAI_API_KEY
+      apiKey: descriptor.authStyle === 'bearer' && config.apiKey ? config.apiKey : 'not-needed',
+      baseURL: baseUrl.replace(/\/+$/, ''),
+      defaultHeaders: authHeaders(descriptor, config.apiKey)
     });
   }
 
-  async generateResponse(messages: Message[], systemPrompt?: string): Promise<string> {
+  async completeTurn({ messages, systemPrompt, tools, signal, responseFormat, sampling }: TurnRequest): Promise<LLMResponse> {
     try {
-      const openAIMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-      
-      if (systemPrompt) {
-        openAIMessages.push({
-          role: 'system',
-          content: systemPrompt
-        });
-      }
-
-      messages.forEach(msg => {
-        if (msg.role !== 'system') {
-          openAIMessages.push({
-            role: msg.role as 'user' | 'assistant',
-            content: msg.content
-          });
-        }
-      });
-
       const response = await this.client.chat.completions.create({
         model: this.config.model,
-        messages: openAIMessages,
-        temperature: this.config.temperature || 0.7,
-        max_tokens: this.config.maxTokens || 2000,
+        ...this.promptParams(messages, systemPrompt, tools),
+        tools: this.descriptor.capabilities.tools ? toOpenAITools(tools) : undefined,
+        response_format: toOpenAIResponseFormat(responseFormat),
+        ...toOpenAISampling(this.resolveSampling(sampling), this.descriptor),
         stream: false
-      });
+      }, { signal });
+
+      return fromOpenAICompletion(response);
+    } catch (error) {
+      console.error(`${this.descriptor.name} API error:`, error);
+      throw toProviderError(this.descriptor.name, error);
+    }
+  }
 
-      return response.choices[0]?.message?.content || '';
+  async *streamTurn({ messages, systemPrompt, tools, signal, responseFormat, sampling }: TurnRequest): AsyncGenerator<LLMStreamDelta> {
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: this.config.model,
+        ...this.promptParams(messages, systemPrompt, tools),
+        tools: this.descriptor.capabilities.tools ? toOpenAITools(tools) : undefined,
+        response_format: toOpenAIResponseFormat(responseFormat),
+        ...toOpenAISampling(this.resolveSampling(sampling), this.descriptor),
+        stream: true,
+        stream_options: { include_usage: true }
+      }, { signal });
+
+      yield* separateThinkTags(readOpenAIStream(stream));
     } catch (error) {
-      console.error('OpenRouter API error:', error);
-      throw new Error(`OpenRouter API error: ${error}`);
+      console.error(`${this.descriptor.name} API error:`, error);
+      throw toProviderError(this.descriptor.name, error);
     }
   }
 
-  async validateApiKey(): Promise<boolean> {
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    try {
+      const response = await this.client.embeddings.create({
+        model: this.config.model,
+        input: texts,
+        encoding_format: 'float'
+      }, { signal });
+      return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    } catch (error) {
+      console.error(`${this.descriptor.name} embeddings error:`, error);
+      throw toProviderError(this.descriptor.name, error);
+    }
+  }
+
+  // The messages to send, with whatever prompt caching hint this API takes
+  private promptParams(messages: Message[], systemPrompt: string | undefined, tools: MCPTool[]) {
+    const openAIMessages = toOpenAIMessages(messages, systemPrompt);
+    switch (this.descriptor.capabilities.promptCache) {
+      case 'key':
+        return { messages: openAIMessages, prompt_cache_key: toOpenAIPromptCacheKey(systemPrompt, tools) };
+      case 'breakpoints':
+        return { messages: withOpenAICacheBreakpoints(openAIMessages) };
+      default:
+        return { messages: openAIMessages };
+    }
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const lister = isBuiltinProvider(this.descriptor.id) ? MODEL_LISTERS[this.descriptor.id] : undefined;
+    if (lister) {
+      return sortModels(await lister(this.client, this.config.apiKey));
+    }
+
+    // Generic GET {baseUrl}/models
+    const models: ModelInfo[] = [];
+    for await (const model of this.client.models.list()) {
+      models.push(withCatalogDetails(this.descriptor.id, {
+        id: model.id,
+        capabilities: { tools: this.descriptor.capabilities.tools, vision: supportsVision(this.descriptor.id, model.id) }
+      }));
+    }
+    return sortModels(models);
+  }
+
+  // Listing models is free and needs a valid key on every OpenAI-style API
+  async checkAccess(): Promise<void> {
     try {
       await this.client.models.list();
-      return true;
     } catch (error) {
-      console.error('OpenRouter API key validation failed:', error);
-      return false;
+      throw toProviderError(this.descriptor.name, error);
     }
   }
 }
 
-// Groq (Fast inference) - different from Grok
-export class GroqProvider extends LLMProvider {
-  private client: OpenAI;
+export class AnthropicProvider extends LLMProvider {
+  private client: Anthropic;
 
   constructor(config: LLMConfig) {
     super(config);
-    this.client = new OpenAI({
+    this.client = new Anthropic({
       apiKey: config.apiKey,
-      baseURL: 'https://api.groq.com/openai/v1',
-      dangerouslyAllowBrowser: true
+      // Set for user-defined Anthropic-compatible endpoints
+      baseURL: config.baseUrl
     });
   }
 
-  async generateResponse(messages: Message[], systemPrompt?: string): Promise<string> {
+  async completeTurn({ messages, systemPrompt, tools, signal, responseFormat, sampling }: TurnRequest): Promise<LLMResponse> {
     try {
-      const openAIMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-      
-      if (systemPrompt) {
-        openAIMessages.push({
-          role: 'system',
-          content: systemPrompt
-        });
-      }
+      const response = await this.client.messages.create(
+        this.messageParams({ messages, systemPrompt, tools, responseFormat, sampling }),
+        { signal }
+      );
 
-      messages.forEach(msg => {
-        if (msg.role !== 'system') {
-          openAIMessages.push({
-            role: msg.role as 'user' | 'assistant',
-            content: msg.content
-          });
-        }
-      });
+      return fromAnthropicMessage(response, responseFormat);
+    } catch (error) {
+      console.error('Anthropic API error:', error);
+      throw toProviderError('Anthropic', error);
+    }
+  }
 
-      const response = await this.client.chat.completions.create({
-        model: this.config.model,
-        messages: openAIMessages,
-        temperature: this.config.temperature || 0.7,
-        max_tokens: this.config.maxTokens || 2000,
-        stream: false
-      });
+  async *streamTurn({ messages, systemPrompt, tools, signal, responseFormat, sampling }: TurnRequest): AsyncGenerator<LLMStreamDelta> {
+    try {
+      const stream = this.client.messages.stream(
+        this.messageParams({ messages, systemPrompt, tools, responseFormat, sampling }),
+        { signal }
+      );
+
+      for await (const event of stream) {
+        if (event.type !== 'content_block_delta') continue;
+        if (event.delta.type === 'text_delta') {
+          yield { type: 'text', text: event.delta.text };
+        } else if (event.delta.type === 'thinking_delta') {
+          yield { type: 'reasoning', text: event.delta.thinking };
+        } else if (event.delta.type === 'signature_delta') {
+          yield { type: 'reasoning', text: '', signature: event.delta.signature };
+        }
+      }
 
-      return response.choices[0]?.message?.content || '';
+      // Tool inputs stream as partial JSON; read the assembled calls from the final message
+      const finalMessage = await stream.finalMessage();
+      const { content, toolCalls = [], usage } = fromAnthropicMessage(finalMessage, responseFormat);
+      if (finalMessage.content.some(block => block.type === 'tool_use' && block.name === ANTHROPIC_OUTPUT_TOOL)) {
+        yield { type: 'text', text: content };
+      }
+      for (const call of toolCalls) {
+        yield { type: 'tool_call', call };
+      }
+      if (usage) {
+        yield { type: 'usage', usage };
+      }
     } catch (error) {
-      console.error('Groq API error:', error);
-      throw new Error(`Groq API error: ${error}`);
+      console.error('Anthropic API error:', error);
+      throw toProviderError('Anthropic', error);
     }
   }
 
-  async validateApiKey(): Promise<boolean> {
-    // Skip validation for now - will validate during actual API call
-    return this.config.apiKey && this.config.apiKey.length > 10;
+  private messageParams({ messages, systemPrompt, tools, responseFormat, sampling }: Omit<TurnRequest, 'signal'>): Anthropic.MessageCreateParamsNonStreaming {
+    const thinkingBudget = anthropicThinkingBudget(this.config);
+    return {
+      model: this.config.model,
+      ...toAnthropicSampling(this.resolveSampling(sampling), thinkingBudget),
+      // Without a forced output tool Claude may answer in text, so it is also told about the schema
+      system: toAnthropicSystem(thinkingBudget && responseFormat ? withSchemaInstruction(systemPrompt, responseFormat) : systemPrompt),
+      messages: withAnthropicCacheBreakpoints(toAnthropicMessages(messages)),
+      ...toAnthropicToolParams(tools, responseFormat, Boolean(thinkingBudget))
+    };
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const models: ModelInfo[] = [];
+    // Listed newest first, which is the order worth keeping
+    for await (const model of this.client.models.list()) {
+      models.push(withCatalogDetails('anthropic', {
+        id: model.id,
+        name: model.display_name,
+        contextWindow: 200000,
+        capabilities: { vision: supportsVision('anthropic', model.id), tools: true }
+      }));
+    }
+    return models;
+  }
+
+  // Listing models needs a valid key but, unlike a test message, costs nothing
+  async checkAccess(): Promise<void> {
+    try {
+      await this.client.models.list({ limit: 1 });
+    } catch (error) {
+      throw toProviderError('Anthropic', error);
+    }
   }
 }
 
-// Together AI - Reliable free inference
-export class TogetherProvider extends LLMProvider {
-  private client: OpenAI;
+export class GeminiProvider extends LLMProvider {
+  private client: GoogleGenerativeAI;
 
   constructor(config: LLMConfig) {
     super(config);
-    this.client = new OpenAI({
-      apiKey: config.apiKey,
-      baseURL: 'https://api.together.xyz/v1',
-      dangerouslyAllowBrowser: true
-    });
+    this.client = new GoogleGenerativeAI(config.apiKey || '');
   }
 
-  async generateResponse(messages: Message[], systemPrompt?: string): Promise<string> {
+  async completeTurn({ messages, systemPrompt, tools, signal, responseFormat, sampling }: TurnRequest): Promise<LLMResponse> {
     try {
-      const openAIMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-      
-      if (systemPrompt) {
-        openAIMessages.push({
-          role: 'system',
-          content: systemPrompt
-        });
-      }
+      const model = this.getModel({ systemPrompt, tools, responseFormat, sampling });
+      const { history, pending } = toGeminiChat(messages);
+      const chat = model.startChat({ history });
+      const result = await chat.sendMessage(pending, { signal });
+      const response = result.response;
+      const { text, reasoning } = fromGeminiResponse(response);
+
+      return {
+        content: text,
+        toolCalls: (response.functionCalls() || []).map(fromGeminiFunctionCall),
+        usage: fromGeminiUsage(response.usageMetadata),
+        reasoning
+      };
+    } catch (error) {
+      console.error('Gemini API error:', error);
+      throw toProviderError('Gemini', error);
+    }
+  }
+
+  async *streamTurn({ messages, systemPrompt, tools, signal, responseFormat, sampling }: TurnRequest): AsyncGenerator<LLMStreamDelta> {
+    try {
+      const model = this.getModel({ systemPrompt, tools, responseFormat, sampling });
+      const { history, pending } = toGeminiChat(messages);
+      const chat = model.startChat({ history });
+      const result = await chat.sendMessageStream(pending, { signal });
 
-      messages.forEach(msg => {
-        if (msg.role !== 'system') {
-          openAIMessages.push({
-            role: msg.role as 'user' | 'assistant',
-            content: msg.content
-          });
+      for await (const chunk of result.stream) {
+        const { text, reasoning } = fromGeminiResponse(chunk);
+        if (reasoning) {
+          yield { type: 'reasoning', text: reasoning };
         }
-      });
+        if (text) {
+          yield { type: 'text', text };
+        }
+        for (const call of chunk.functionCalls() || []) {
+          yield { type: 'tool_call', call: fromGeminiFunctionCall(call) };
+        }
+      }
 
-      const response = await this.client.chat.completions.create({
-        model: this.config.model,
-        messages: openAIMessages,
-        temperature: this.config.temperature || 0.7,
-        max_tokens: this.config.maxTokens || 2000,
-        stream: false
-      });
+      const usage = fromGeminiUsage((await result.response).usageMetadata);
+      if (usage) {
+        yield { type: 'usage', usage };
+      }
+    } catch (error) {
+      console.error('Gemini API error:', error);
+      throw toProviderError('Gemini', error);
+    }
+  }
 
-      return response.choices[0]?.message?.content || '';
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    try {
+      const model = this.client.getGenerativeModel({ model: this.config.model });
+      const response = await model.batchEmbedContents({
+        requests: texts.map(text => ({ content: { role: 'user', parts: [{ text }] } }))
+      }, { signal });
+      return response.embeddings.map(embedding => embedding.values);
     } catch (error) {
-      console.error('Together API error:', error);
-      throw new Error(`Together API error: ${error}`);
+      console.error('Gemini embeddings error:', error);
+      throw toProviderError('Gemini', error);
     }
   }
 
-  async validateApiKey(): Promise<boolean> {
-    // Skip validation for now - will validate during actual API call
-    return this.config.apiKey && this.config.apiKey.length > 10;
+  private getModel({ systemPrompt, tools, responseFormat, sampling }: Pick<TurnRequest, 'systemPrompt' | 'tools' | 'responseFormat' | 'sampling'>): GenerativeModel {
+    const { systemInstruction, generationConfig } = toGeminiOutputConfig(systemPrompt, tools, responseFormat, this.resolveSampling(sampling));
+    const thinkingConfig = toGeminiThinkingConfig(this.config.model, this.config.thinkingBudget);
+    return this.client.getGenerativeModel({
+      model: this.config.model,
+      tools: toGeminiTools(tools),
+      systemInstruction,
+      // The SDK predates thinking and sends the config as it is
+      generationConfig: thinkingConfig ? { ...generationConfig, thinkingConfig } as GenerationConfig : generationConfig
+    });
+  }
+
+  // The SDK has no listing call, so this goes to the REST endpoint directly
+  async listModels(): Promise<ModelInfo[]> {
+    const data = await fetchProviderJson<{ models?: GeminiModel[] }>(
+      'https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000',
+      { 'x-goog-api-key': this.config.apiKey || '' }
+    );
+
+    return sortModels((data.models || [])
+      .filter(model => model.supportedGenerationMethods?.includes('generateContent'))
+      .map(model => {
+        const id = model.name.replace(/^models\//, '');
+        return withCatalogDetails('gemini', {
+          id,
+          name: model.displayName,
+          contextWindow: model.inputTokenLimit,
+          capabilities: {
+            vision: supportsVision('gemini', id),
+            tools: /^gemini-(1\.5|2|exp)/.test(id)
+          }
+        });
+      }));
+  }
+
+  async checkAccess(): Promise<void> {
+    try {
+      await fetchProviderJson('https://generativelanguage.googleapis.com/v1beta/models?pageSize=1', { 'x-goog-api-key': this.config.apiKey || '' });
+    } catch (error) {
+      throw toProviderError('Gemini', error);
+    }
   }
 }
 
+// Whether a Hugging Face model has a chat template, keyed by model id; Hub metadata rarely changes
+const chatModelCache = new Map<string, boolean>();
+
 export class HuggingFaceProvider extends LLMProvider {
   private client: HfInference;
 
@@ -343,218 +1219,236 @@ export class HuggingFaceProvider extends LLMProvider {
     this.client = new HfInference(config.apiKey);
   }
 
-  async generateResponse(messages: Message[], systemPrompt?: string): Promise<string> {
+  // Tools are not passed to Hugging Face models; most served models do not support calling them.
+  // There is no portable JSON mode either, so a requested schema is described in the system prompt
+  async completeTurn({ messages, systemPrompt, signal, responseFormat, sampling }: TurnRequest): Promise<LLMResponse> {
+    if (responseFormat) {
+      systemPrompt = withSchemaInstruction(systemPrompt, responseFormat);
+    }
     try {
-      // Convert messages to a single prompt
-      let prompt = '';
-      if (systemPrompt) {
-        prompt += `System: ${systemPrompt}\n\n`;
+      if (await this.isChatModel()) {
+        const response = await this.client.chatCompletion({
+          model: this.config.model,
+          messages: this.toChatMessages(messages, systemPrompt),
+          ...this.chatSampling(sampling)
+        }, { signal });
+
+        const { content, reasoning } = splitThinkTags(response.choices[0]?.message?.content || '');
+        return {
+          content,
+          reasoning,
+          usage: response.usage
+            ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+            : undefined
+        };
       }
-      
-      messages.forEach(msg => {
-        const role = msg.role === 'user' ? 'Human' : 'Assistant';
-        prompt += `${role}: ${msg.content}\n\n`;
-      });
-      
-      prompt += 'Assistant: ';
-      
-      try {
-        const response = await this.client.textGeneration({
+
+      const response = await this.client.textGeneration({
+        model: this.config.model,
+        inputs: this.buildPrompt(messages, systemPrompt),
+        parameters: this.textGenerationParameters(sampling)
+      }, { signal });
+
+      return splitThinkTags(response.generated_text || '');
+    } catch (error) {
+      console.error('HuggingFace API error:', error);
+      throw toProviderError('HuggingFace', error);
+    }
+  }
+
+  async *streamTurn(request: TurnRequest): AsyncGenerator<LLMStreamDelta> {
+    yield* separateThinkTags(this.streamReply(request));
+  }
+
+  private async *streamReply({ messages, systemPrompt, signal, responseFormat, sampling }: TurnRequest): AsyncGenerator<LLMStreamDelta> {
+    if (responseFormat) {
+      systemPrompt = withSchemaInstruction(systemPrompt, responseFormat);
+    }
+    try {
+      if (await this.isChatModel()) {
+        const stream = this.client.chatCompletionStream({
           model: this.config.model,
-          inputs: prompt,
-          parameters: {
-            max_new_tokens: this.config.maxTokens || 500,
-            temperature: this.config.temperature || 0.7,
-            return_full_text: false,
-            do_sample: true
+          messages: this.toChatMessages(messages, systemPrompt),
+          ...this.chatSampling(sampling),
+          stream_options: { include_usage: true }
+        }, { signal });
+
+        for await (const chunk of stream) {
+          const text = chunk.choices[0]?.delta?.content;
+          if (text) {
+            yield { type: 'text', text };
           }
-        });
-        
-        return response.generated_text || '';
-      } catch (modelError) {
-        // If the specific model fails, try with a reliable default one
-        console.warn(`Model ${this.config.model} failed, trying default model:`, modelError);
-        const response = await this.client.textGeneration({
-          model: 'gpt2',
-          inputs: prompt,
-          parameters: {
-            max_new_tokens: this.config.maxTokens || 200,
-            temperature: this.config.temperature || 0.7,
-            return_full_text: false
+          if (chunk.usage) {
+            yield {
+              type: 'usage',
+              usage: { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens }
+            };
           }
-        });
-        
-        return response.generated_text || '';
+        }
+        return;
+      }
+
+      const stream = this.client.textGenerationStream({
+        model: this.config.model,
+        inputs: this.buildPrompt(messages, systemPrompt),
+        parameters: this.textGenerationParameters(sampling)
+      }, { signal });
+
+      for await (const output of stream) {
+        if (!output.token.special && output.token.text) {
+          yield { type: 'text', text: output.token.text };
+        }
       }
     } catch (error) {
       console.error('HuggingFace API error:', error);
-      throw new Error(`HuggingFace API error: ${error}`);
+      throw toProviderError('HuggingFace', error);
     }
   }
 
-  async validateApiKey(): Promise<boolean> {
-    // Skip validation for now - will validate during actual API call
-    return this.config.apiKey && this.config.apiKey.length > 10;
+  private chatSampling(overrides?: SamplingParams) {
+    const sampling = this.resolveSampling(overrides);
+    return {
+      max_tokens: sampling.maxTokens ?? DEFAULT_HF_MAX_TOKENS,
+      temperature: sampling.temperature ?? DEFAULT_TEMPERATURE,
+      top_p: sampling.topP,
+      stop: sampling.stop,
+      presence_penalty: sampling.presencePenalty,
+      frequency_penalty: sampling.frequencyPenalty,
+      seed: sampling.seed
+    };
   }
-}
 
-export class LLMProviderFactory {
-  static createProvider(config: LLMConfig): LLMProvider {
-    switch (config.provider) {
-      case 'openai':
-        return new OpenAIProvider(config);
-      case 'anthropic':
-        return new AnthropicProvider(config);
-      case 'gemini':
-        return new GeminiProvider(config);
-      case 'openrouter':
-        return new OpenRouterProvider(config);
-      case 'groq':
-        return new GroqProvider(config);
-      case 'together':
-        return new TogetherProvider(config);
-      case 'huggingface':
-        return new HuggingFaceProvider(config);
-      default:
-        throw new Error(`Unsupported LLM provider: ${config.provider}`);
+  // Text generation rejects a zero temperature when sampling, so 0 means greedy decoding instead
+  private textGenerationParameters(overrides?: SamplingParams) {
+    const sampling = this.resolveSampling(overrides);
+    const temperature = sampling.temperature ?? DEFAULT_TEMPERATURE;
+    return {
+      max_new_tokens: sampling.maxTokens ?? DEFAULT_HF_MAX_TOKENS,
+      temperature: temperature > 0 ? temperature : undefined,
+      do_sample: temperature > 0,
+      top_p: sampling.topP,
+      top_k: sampling.topK,
+      stop: sampling.stop,
+      frequency_penalty: sampling.frequencyPenalty,
+      seed: sampling.seed,
+      return_full_text: false
+    };
+  }
+
+  // Models that ship a chat template are tagged "conversational" on the Hub; the server applies the template
+  private async isChatModel(): Promise<boolean> {
+    const model = this.config.model;
+    const cached = chatModelCache.get(model);
+    if (cached !== undefined) return cached;
+
+    try {
+      const info = await fetchProviderJson<{ tags?: string[]; pipeline_tag?: string }>(
+        `https://huggingface.co/api/models/${model}`,
+        { Authorization: `Bearer ${this.config.apiKey}` }
+      );
+      const isChat = Boolean(info.tags?.includes('conversational') || info.pipeline_tag === 'image-text-to-text');
+      chatModelCache.set(model, isChat);
+      return isChat;
+    } catch (error) {
+      // Without Hub metadata assume an instruction-tuned model, which is what HF Inference mostly serves
+      console.warn(`⚠️ Could not read Hub metadata for ${model}, assuming a chat model:`, error);
+      return true;
     }
   }
 
-  static getAvailableProviders() {
-    return [
-      {
-        id: 'openai' as const,
-        name: 'OpenAI',
-        models: [
-          'gpt-4o',
-          'gpt-4o-mini',
-          'gpt-4-turbo',
-          'gpt-4',
-          'gpt-3.5-turbo'
-        ],
-        requiresApiKey: true
-      },
-      {
-        id: 'anthropic' as const,
-        name: 'Anthropic',
-        models: [
-          'claude-3-5-sonnet-20241022',
-          'claude-3-opus-20240229',
-          'claude-3-sonnet-20240229',
-          'claude-3-haiku-20240307'
-        ],
-        requiresApiKey: true
-      },
-      {
-        id: 'gemini' as const,
-        name: 'Google Gemini (Free)',
-        models: [
-          'gemini-1.5-flash',
-          'gemini-1.5-pro',
-          'gemini-pro',
-          'gemini-pro-vision'
-        ],
-        requiresApiKey: true
-      },
-      {
-        id: 'openrouter' as const,
-        name: 'OpenRouter',
-        models: [
-          'meta-llama/llama-3.2-3b-instruct:free',
-          'microsoft/wizardlm-2-8x22b:free',
-          'google/gemma-2-9b-it:free',
-          'mistralai/mistral-7b-instruct:free',
-          'huggingfaceh4/zephyr-7b-beta:free',
-          'openchat/openchat-7b:free',
-          'gryphe/mythomist-7b:free',
-          'undi95/toppy-m-7b:free',
-          'openai/gpt-3.5-turbo',
-          'anthropic/claude-3-haiku',
-          'google/gemini-pro',
-          'cohere/command-r',
-          'meta-llama/llama-3.1-8b-instruct',
-          'microsoft/phi-3-medium-4k-instruct',
-          'qwen/qwen-2-7b-instruct'
-        ],
-        requiresApiKey: true
-      },
-      {
-        id: 'groq' as const,
-        name: 'Groq (Fast Inference)',
-        models: [
-          'llama3-8b-8192',
-          'llama3-70b-8192',
-          'mixtral-8x7b-32768',
-          'gemma-7b-it'
-        ],
-        requiresApiKey: true
-      },
-      {
-        id: 'together' as const,
-        name: 'Together AI (Free)',
-        models: [
-          'meta-llama/Llama-2-7b-chat-hf',
-          'meta-llama/Llama-2-13b-chat-hf',
-          'mistralai/Mistral-7B-Instruct-v0.1',
-          'NousResearch/Nous-Hermes-2-Yi-34B',
-          'teknium/OpenHermes-2.5-Mistral-7B'
-        ],
-        requiresApiKey: true
-      },
-      {
-        id: 'huggingface' as const,
-        name: 'Hugging Face',
-        models: [
-          'gpt2',
-          'distilgpt2',
-          'microsoft/DialoGPT-small',
-          'facebook/blenderbot_small-90M',
-          'google/flan-t5-small',
-          'google/flan-t5-base',
-          'EleutherAI/gpt-neo-1.3B',
-          'bigscience/bloom-560m'
-        ],
-        requiresApiKey: true
-      }
-    ];
+  private toChatMessages(messages: Message[], systemPrompt?: string): { role: string; content: string }[] {
+    const chatMessages: { role: string; content: string }[] = [];
+    if (systemPrompt) {
+      chatMessages.push({ role: 'system', content: systemPrompt });
+    }
+
+    messages.forEach(msg => {
+      if (msg.role === 'tool') return;
+      const content = this.messageText(msg);
+      if (msg.role === 'assistant' && !content) return;
+      chatMessages.push({ role: msg.role, content });
+    });
+
+    return chatMessages;
   }
-}
 
-export class LLMManager {
-  private currentProvider: LLMProvider | null = null;
-  private config: LLMConfig | null = null;
+  // Base models have no chat template, so the conversation is written out as a transcript
+  private buildPrompt(messages: Message[], systemPrompt?: string): string {
+    let prompt = '';
+    if (systemPrompt) {
+      prompt += `System: ${systemPrompt}\n\n`;
+    }
+    
+    messages.forEach(msg => {
+      if (msg.role === 'tool') return;
+      const role = msg.role === 'user' ? 'Human' : 'Assistant';
+      prompt += `${role}: ${this.messageText(msg)}\n\n`;
+    });
+    
+    return prompt + 'Assistant: ';
+  }
 
-  async setProvider(config: LLMConfig): Promise<void> {
-    try {
-      const provider = LLMProviderFactory.createProvider(config);
-      
-      // Validate the API key
-      const isValid = await provider.validateApiKey();
-      if (!isValid) {
-        throw new Error('Invalid API key');
-      }
+  // Most-downloaded text-generation models currently served by HF Inference
+  async listModels(): Promise<ModelInfo[]> {
+    const data = await fetchProviderJson<{ id: string }[]>(
+      'https://huggingface.co/api/models?pipeline_tag=text-generation&inference_provider=hf-inference&sort=downloads&direction=-1&limit=100',
+      { Authorization: `Bearer ${this.config.apiKey}` }
+    );
+
+    return data.map(model => withCatalogDetails('huggingface', {
+      id: model.id,
+      capabilities: { vision: false, tools: false }
+    }));
+  }
 
-      this.currentProvider = provider;
-      this.config = config;
+  // Text files can be inlined, images and PDFs cannot
+  private messageText(msg: Message): string {
+    if (!hasAttachments(msg)) return msg.content;
+
+    return (msg.parts || []).map(part => {
+      if (part.type === 'text') return part.text;
+      if (part.type === 'file' && isTextMimeType(part.mimeType)) return attachmentAsText(part);
+      throw createLLMError('invalid_request', `Hugging Face text-generation models cannot read ${part.type === 'image' ? 'images' : 'PDF files'} (${part.name})`, { status: 400 });
+    }).join('\n\n');
+  }
+
+  // Rejects an unknown or revoked token without touching any model
+  async checkAccess(): Promise<void> {
+    try {
+      await fetchProviderJson('https://huggingface.co/api/whoami-v2', { Authorization: `Bearer ${this.config.apiKey}` });
     } catch (error) {
-      console.error('Failed to set LLM provider:', error);
-      throw error;
+      throw toProviderError('HuggingFace', error);
     }
   }
+}
 
-  async generateResponse(messages: Message[], systemPrompt?: string): Promise<string> {
-    if (!this.currentProvider) {
-      throw new Error('No LLM provider configured');
+export class LLMProviderFactory {
+  static createProvider(config: LLMConfig, descriptor = getProviderDescriptor(config.provider)): LLMProvider {
+    if (!descriptor) {
+      throw new Error(`Unsupported LLM provider: ${config.provider}`);
     }
 
-    return await this.currentProvider.generateResponse(messages, systemPrompt);
-  }
-
-  getCurrentConfig(): LLMConfig | null {
-    return this.config;
+    switch (descriptor.api) {
+      case 'openai':
+        return new OpenAICompatibleProvider(config, descriptor);
+      case 'anthropic':
+        return new AnthropicProvider(config);
+      case 'gemini':
+        return new GeminiProvider(config);
+      case 'huggingface':
+        return new HuggingFaceProvider(config);
+      case 'replay':
+        return new ReplayLLMProvider(config, name => FixtureStore.getInstance().load(name), {
+          listFixtures: () => FixtureStore.getInstance().list(),
+          // Tests set this so an unrecorded conversation fails instead of replaying by position
+          strict: process.env.LLM_REPLAY_STRICT === 'true'
+        });
+      default:
+        throw new Error(`Unsupported provider API: ${descriptor.api}`);
+    }
   }
 
-  isConfigured(): boolean {
-    return this.currentProvider !== null && this.config !== null;
+  static getAvailableProviders() {
+    return getProviders();
   }
 }
@@ -0,0 +1,72 @@
+import { LLMStreamDelta } from '@/types';
+
+// Open-weight reasoning models (DeepSeek R1, QwQ, Qwen3) write their reasoning inline between <think> tags
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+// Splits a complete reply into its answer and the reasoning inside <think> tags
+export function splitThinkTags(content: string): { content: string; reasoning?: string } {
+  const reasoning: string[] = [];
+  const answer = content.replace(/<think>([\s\S]*?)(?:<\/think>\s*|$)/g, (_match, thought: string) => {
+    reasoning.push(thought.trim());
+    return '';
+  });
+  if (reasoning.length === 0) return { content };
+  return { content: answer, reasoning: reasoning.filter(Boolean).join('\n\n') || undefined };
+}
+
+// Streaming counterpart of splitThinkTags; a tag may be split across chunks, so a possible partial
+// tag at the end of a chunk is held back until the next one arrives
+export async function* separateThinkTags(stream: AsyncIterable<LLMStreamDelta>): AsyncGenerator<LLMStreamDelta> {
+  let buffer = '';
+  let thinking = false;
+  // Models put a blank line after </think>, which should not open the answer
+  let answerStarted = false;
+
+  const emit = (text: string): LLMStreamDelta | undefined => {
+    if (thinking) {
+      return text ? { type: 'reasoning', text } : undefined;
+    }
+    const answer = answerStarted ? text : text.trimStart();
+    if (!answer) return undefined;
+    answerStarted = true;
+    return { type: 'text', text: answer };
+  };
+
+  for await (const delta of stream) {
+    if (delta.type !== 'text') {
+      yield delta;
+      continue;
+    }
+
+    buffer += delta.text;
+    while (buffer) {
+      const tag = thinking ? CLOSE_TAG : OPEN_TAG;
+      const index = buffer.indexOf(tag);
+      if (index >= 0) {
+        const before = emit(buffer.slice(0, index));
+        if (before) yield before;
+        buffer = buffer.slice(index + tag.length);
+        thinking = !thinking;
+        continue;
+      }
+
+      const held = partialTagLength(buffer, tag);
+      const ready = emit(buffer.slice(0, buffer.length - held));
+      if (ready) yield ready;
+      buffer = buffer.slice(buffer.length - held);
+      break;
+    }
+  }
+
+  const rest = emit(buffer);
+  if (rest) yield rest;
+}
+
+// Length of the longest suffix of text that could be the start of tag
+function partialTagLength(text: string, tag: string): number {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (tag.startsWith(text.slice(text.length - length))) return length;
+  }
+  return 0;
+}
@@ -0,0 +1,305 @@
+import { ProviderDescriptor, ProviderSpec } from '@/types';
+
+// Built-in providers, keyed by id. Adding a vendor that speaks one of the supported APIs only
+// takes an entry here; the provider id type is derived from these keys.
+const BUILTIN_PROVIDERS = {
+  openai: {
+    name: 'OpenAI',
+    api: 'openai',
+    baseUrl: 'https://api.openai.com/v1',
+    authStyle: 'bearer',
+    models: [
+      'gpt-4o',
+      'gpt-4o-mini',
+      'gpt-4-turbo',
+      'gpt-4',
+      'gpt-3.5-turbo'
+    ],
+    requiresApiKey: true,
+    capabilities: { tools: true, vision: /^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|o[134]|chatgpt-4o)/, pdf: true, promptCache: 'key' },
+    tokenFactor: 1.0,
+    pricing: {
+      'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+      'gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 },
+      'gpt-4-turbo': { input: 10, output: 30 },
+      'gpt-4': { input: 30, output: 60 },
+      'gpt-3.5-turbo': { input: 0.5, output: 1.5 }
+    },
+    contextWindows: {
+      'gpt-4o': 128000,
+      'gpt-4o-mini': 128000,
+      'gpt-4-turbo': 128000,
+      'gpt-4': 8192,
+      'gpt-3.5-turbo': 16385
+    },
+    embeddingModels: ['text-embedding-3-small', 'text-embedding-3-large']
+  },
+  anthropic: {
+    name: 'Anthropic',
+    api: 'anthropic',
+    authStyle: 'x-api-key',
+    models: [
+      'claude-3-5-sonnet-20241022',
+      'claude-3-opus-20240229',
+      'claude-3-sonnet-20240229',
+      'claude-3-haiku-20240307'
+    ],
+    requiresApiKey: true,
+    capabilities: { tools: true, vision: /^claude-(3|sonnet-4|opus-4|haiku-4)/, pdf: true },
+    tokenFactor: 1.1,
+    pricing: {
+      'claude-3-5-sonnet-20241022': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+      'claude-3-opus-20240229': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+      'claude-3-sonnet-20240229': { input: 3, output: 15 },
+      'claude-3-haiku-20240307': { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3 }
+    },
+    contextWindows: {
+      'claude-3-5-sonnet-20241022': 200000,
+      'claude-3-opus-20240229': 200000,
+      'claude-3-sonnet-20240229': 200000,
+      'claude-3-haiku-20240307': 200000
+    }
+  },
+  gemini: {
+    name: 'Google Gemini (Free)',
+    api: 'gemini',
+    authStyle: 'x-goog-api-key',
+    models: [
+      'gemini-1.5-flash',
+      'gemini-1.5-pro',
+      'gemini-pro',
+      'gemini-pro-vision'
+    ],
+    requiresApiKey: true,
+    capabilities: { tools: true, vision: /^gemini-(1\.5|2|exp)|vision/, pdf: true },
+    tokenFactor: 1.0,
+    pricing: {
+      'gemini-1.5-flash': { input: 0.075, output: 0.3, cacheRead: 0.01875 },
+      'gemini-1.5-pro': { input: 1.25, output: 5, cacheRead: 0.3125 },
+      'gemini-pro': { input: 0.5, output: 1.5 },
+      'gemini-pro-vision': { input: 0.5, output: 1.5 }
+    },
+    contextWindows: {
+      'gemini-1.5-flash': 1048576,
+      'gemini-1.5-pro': 2097152,
+      'gemini-pro': 32760,
+      'gemini-pro-vision': 16384
+    },
+    embeddingModels: ['text-embedding-004']
+  },
+  openrouter: {
+    name: 'OpenRouter',
+    api: 'openai',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    authStyle: 'bearer',
+    models: [
+      'meta-llama/llama-3.2-3b-instruct:free',
+      'microsoft/wizardlm-2-8x22b:free',
+      'google/gemma-2-9b-it:free',
+      'mistralai/mistral-7b-instruct:free',
+      'huggingfaceh4/zephyr-7b-beta:free',
+      'openchat/openchat-7b:free',
+      'gryphe/mythomist-7b:free',
+      'undi95/toppy-m-7b:free',
+      'openai/gpt-3.5-turbo',
+      'anthropic/claude-3-haiku',
+      'google/gemini-pro',
+      'cohere/command-r',
+      'meta-llama/llama-3.1-8b-instruct',
+      'microsoft/phi-3-medium-4k-instruct',
+      'qwen/qwen-2-7b-instruct'
+    ],
+    requiresApiKey: true,
+    // Vision and tool support vary per routed model and come from the live listing; cache marks are
+    // passed on to Anthropic and Gemini models and ignored by the rest
+    capabilities: { tools: true, pdf: true, topK: true, promptCache: 'breakpoints' },
+    // ":free" models cost nothing; see getModelPricing
+    pricing: {
+      'openai/gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+      'anthropic/claude-3-haiku': { input: 0.25, output: 1.25 },
+      'google/gemini-pro': { input: 0.125, output: 0.375 },
+      'cohere/command-r': { input: 0.5, output: 1.5 },
+      'meta-llama/llama-3.1-8b-instruct': { input: 0.055, output: 0.055 },
+      'microsoft/phi-3-medium-4k-instruct': { input: 0.14, output: 0.14 },
+      'qwen/qwen-2-7b-instruct': { input: 0.055, output: 0.055 }
+    },
+    contextWindows: {
+      'meta-llama/llama-3.2-3b-instruct:free': 131072,
+      'microsoft/wizardlm-2-8x22b:free': 65536,
+      'google/gemma-2-9b-it:free': 8192,
+      'mistralai/mistral-7b-instruct:free': 32768,
+      'huggingfaceh4/zephyr-7b-beta:free': 4096,
+      'openchat/openchat-7b:free': 8192,
+      'gryphe/mythomist-7b:free': 32768,
+      'undi95/toppy-m-7b:free': 4096,
+      'openai/gpt-3.5-turbo': 16385,
+      'anthropic/claude-3-haiku': 200000,
+      'google/gemini-pro': 32760,
+      'cohere/command-r': 128000,
+      'meta-llama/llama-3.1-8b-instruct': 131072,
+      'microsoft/phi-3-medium-4k-instruct': 4096,
+      'qwen/qwen-2-7b-instruct': 32768
+    }
+  },
+  groq: {
+    name: 'Groq (Fast Inference)',
+    api: 'openai',
+    baseUrl: 'https://api.groq.com/openai/v1',
+    authStyle: 'bearer',
+    models: [
+      'llama3-8b-8192',
+      'llama3-70b-8192',
+      'mixtral-8x7b-32768',
+      'gemma-7b-it'
+    ],
+    requiresApiKey: true,
+    capabilities: { tools: true, vision: /vision|llama-4/, pdf: false },
+    tokenFactor: 1.15,
+    pricing: {
+      'llama3-8b-8192': { input: 0.05, output: 0.08 },
+      'llama3-70b-8192': { input: 0.59, output: 0.79 },
+      'mixtral-8x7b-32768': { input: 0.24, output: 0.24 },
+      'gemma-7b-it': { input: 0.07, output: 0.07 }
+    },
+    contextWindows: {
+      'llama3-8b-8192': 8192,
+      'llama3-70b-8192': 8192,
+      'mixtral-8x7b-32768': 32768,
+      'gemma-7b-it': 8192
+    }
+  },
+  together: {
+    name: 'Together AI (Free)',
+    api: 'openai',
+    baseUrl: 'https://api.together.xyz/v1',
+    authStyle: 'bearer',
+    models: [
+      'meta-llama/Llama-2-7b-chat-hf',
+      'meta-llama/Llama-2-13b-chat-hf',
+      'mistralai/Mistral-7B-Instruct-v0.1',
+      'NousResearch/Nous-Hermes-2-Yi-34B',
+      'teknium/OpenHermes-2.5-Mistral-7B'
+    ],
+    requiresApiKey: true,
+    capabilities: { tools: true, vision: /vision|-vl/i, pdf: false, topK: true },
+    tokenFactor: 1.15,
+    pricing: {
+      'meta-llama/Llama-2-7b-chat-hf': { input: 0.2, output: 0.2 },
+      'meta-llama/Llama-2-13b-chat-hf': { input: 0.22, output: 0.22 },
+      'mistralai/Mistral-7B-Instruct-v0.1': { input: 0.2, output: 0.2 },
+      'NousResearch/Nous-Hermes-2-Yi-34B': { input: 0.8, output: 0.8 },
+      'teknium/OpenHermes-2.5-Mistral-7B': { input: 0.2, output: 0.2 }
+    },
+    contextWindows: {
+      'meta-llama/Llama-2-7b-chat-hf': 4096,
+      'meta-llama/Llama-2-13b-chat-hf': 4096,
+      'mistralai/Mistral-7B-Instruct-v0.1': 8192,
+      'NousResearch/Nous-Hermes-2-Yi-34B': 4096,
+      'teknium/OpenHermes-2.5-Mistral-7B': 8192
+    },
+    embeddingModels: ['BAAI/bge-base-en-v1.5', 'togethercomputer/m2-bert-80M-8k-retrieval']
+  },
+  huggingface: {
+    name: 'Hugging Face',
+    api: 'huggingface',
+    authStyle: 'bearer',
+    models: [
+      'gpt2',
+      'distilgpt2',
+      'microsoft/DialoGPT-small',
+      'facebook/blenderbot_small-90M',
+      'google/flan-t5-small',
+      'google/flan-t5-base',
+      'EleutherAI/gpt-neo-1.3B',
+      'bigscience/bloom-560m'
+    ],
+    requiresApiKey: true,
+    capabilities: { tools: false, vision: false, pdf: false },
+    tokenFactor: 1.2,
+    contextWindows: {
+      'gpt2': 1024,
+      'distilgpt2': 1024,
+      'microsoft/DialoGPT-small': 1024,
+      'facebook/blenderbot_small-90M': 512,
+      'google/flan-t5-small': 512,
+      'google/flan-t5-base': 512,
+      'EleutherAI/gpt-neo-1.3B': 2048,
+      'bigscience/bloom-560m': 2048
+    }
+  },
+  'openai-compatible': {
+    name: 'OpenAI-Compatible / Local',
+    api: 'openai',
+    baseUrl: 'http://localhost:11434/v1',
+    authStyle: 'bearer',
+    customBaseUrl: true,
+    // Models are whatever the server hosts; discovered from its /v1/models endpoint
+    models: [],
+    requiresApiKey: false,
+    // vLLM, llama.cpp and Ollama all accept top_k
+    capabilities: { tools: true, pdf: false, topK: true },
+    // Self-hosted models cost nothing per token
+    defaultPricing: { input: 0, output: 0 },
+    tokenFactor: 1.15,
+    // Conservative default; local servers often run with a small context (e.g. Ollama's num_ctx)
+    defaultContextWindow: 4096,
+    // Ollama's embedding model; other servers list theirs under /v1/models
+    embeddingModels: ['nomic-embed-text']
+  },
+  // Answers from recorded fixture files instead of a live model, for offline demos and tests;
+  // each fixture in fixtures/llm is listed as a model
+  replay: {
+    name: 'Replay (offline fixtures)',
+    api: 'replay',
+    authStyle: 'none',
+    models: ['demo'],
+    requiresApiKey: false,
+    capabilities: { tools: true, vision: true, pdf: true },
+    defaultPricing: { input: 0, output: 0 },
+    defaultContextWindow: 128000
+  }
+} satisfies Record<string, ProviderSpec>;
+
+export type BuiltinProviderId = keyof typeof BUILTIN_PROVIDERS;
+// User-defined providers are namespaced so they can never shadow a built-in one
+export type CustomProviderId = `custom:${string}`;
+export type ProviderId = BuiltinProviderId | CustomProviderId;
+
+// Providers added from settings; the server keeps the source of truth and the browser mirrors it
+const customProviders = new Map<CustomProviderId, ProviderDescriptor>();
+
+export function isBuiltinProvider(id: string): id is BuiltinProviderId {
+  return Object.prototype.hasOwnProperty.call(BUILTIN_PROVIDERS, id);
+}
+
+export function isCustomProviderId(id: string): id is CustomProviderId {
+  return /^custom:[a-z0-9][a-z0-9-]*$/.test(id);
+}
+
+export function toCustomProviderId(name: string): CustomProviderId {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `custom:${slug || 'provider'}`;
+}
+
+export function getProviderDescriptor(id: string): ProviderDescriptor | undefined {
+  if (isBuiltinProvider(id)) {
+    return { id, ...BUILTIN_PROVIDERS[id] };
+  }
+  return isCustomProviderId(id) ? customProviders.get(id) : undefined;
+}
+
+// Built-in providers first, then user-defined ones in the order they were added
+export function getProviders(): ProviderDescriptor[] {
+  const builtin = (Object.keys(BUILTIN_PROVIDERS) as BuiltinProviderId[]).map(id => ({ id, ...BUILTIN_PROVIDERS[id] }));
+  return [...builtin, ...customProviders.values()];
+}
+
+// Replaces the known user-defined providers, e.g. after loading them from the server
+export function registerCustomProviders(descriptors: ProviderDescriptor[]) {
+  customProviders.clear();
+  descriptors.forEach(descriptor => {
+    if (isCustomProviderId(descriptor.id)) {
+      customProviders.set(descriptor.id, { ...descriptor, userDefined: true });
+    }
+  });
+}
@@ -0,0 +1,274 @@
+import { LLMConfig, LLMErrorKind, LLMResponse, LLMStreamDelta, ModelInfo, ProviderDescriptor, ProviderDiagnostics, ProviderId } from '@/types';
+import { rememberModelPricing } from './catalog';
+import { CustomProviderId, registerCustomProviders } from './registry';
+import { LLMProvider, TurnRequest } from './base';
+import { createLLMError, describeError, LLMError, NetworkError } from './errors';
+
+export type CredentialSource = 'env' | 'stored';
+
+interface StreamErrorEvent {
+  type: 'error';
+  error: string;
+  kind?: LLMErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+// Browser-side provider that proxies every model round trip through the /api/llm routes,
+// where the real SDK provider runs with server-held credentials.
+export class RemoteLLMProvider extends LLMProvider {
+  constructor(config: LLMConfig) {
+    // API keys never leave the server, so they are never part of the proxied config
+    super({ ...config, apiKey: undefined });
+  }
+
+  async completeTurn({ messages, systemPrompt, tools, signal, responseFormat, sampling }: TurnRequest): Promise<LLMResponse> {
+    const response = await proxyFetch('/api/llm/chat', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ config: this.config, messages, systemPrompt, tools, responseFormat, sampling }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw await readRequestError(response, 'LLM request failed');
+    }
+
+    return await response.json();
+  }
+
+  async *streamTurn({ messages, systemPrompt, tools, signal, responseFormat, sampling }: TurnRequest): AsyncGenerator<LLMStreamDelta> {
+    const response = await proxyFetch('/api/llm/chat/stream', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ config: this.config, messages, systemPrompt, tools, responseFormat, sampling }),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw await readRequestError(response, 'LLM stream failed');
+    }
+
+    // The stream route sends one JSON delta per line; errors after headers arrive as { type: 'error' }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line) as LLMStreamDelta | StreamErrorEvent;
+        if (event.type === 'error') {
+          throw createLLMError(event.kind, event.error, { status: event.status, retryAfterMs: event.retryAfterMs });
+        }
+        yield event;
+      }
+    }
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await proxyFetch('/api/llm/embed', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ config: this.config, texts }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw await readRequestError(response, 'Embedding request failed');
+    }
+
+    const data = await response.json();
+    return data.embeddings;
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    return (await discoverModels(this.config)).models;
+  }
+
+  async checkAccess(): Promise<void> {
+    const response = await proxyFetch('/api/llm/validate', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ config: this.config })
+    });
+
+    if (!response.ok) {
+      throw await readRequestError(response, 'Validation failed');
+    }
+  }
+}
+
+export interface CredentialStatus {
+  providers: Partial<Record<ProviderId, CredentialSource>>;
+  canStoreKeys: boolean;
+}
+
+// Which providers have a key on the server, and where it came from
+export async function fetchCredentialStatus(): Promise<CredentialStatus> {
+  const response = await fetch('/api/llm/credentials');
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to load credential status'));
+  }
+
+  const data = await response.json();
+  return {
+    providers: data.providers || {},
+    canStoreKeys: Boolean(data.canStoreKeys)
+  };
+}
+
+// Keys for self-hosted providers are tied to the endpoint they are saved with
+export async function saveProviderApiKey(provider: ProviderId, apiKey: string, baseUrl?: string): Promise<void> {
+  const response = await fetch('/api/llm/credentials', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ provider, apiKey, baseUrl })
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to save API key'));
+  }
+}
+
+export async function deleteProviderApiKey(provider: ProviderId): Promise<void> {
+  const response = await fetch(`/api/llm/credentials?provider=${encodeURIComponent(provider)}`, {
+    method: 'DELETE'
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to delete API key'));
+  }
+}
+
+// Loads the user-defined providers from the server and makes them available to the registry
+export async function fetchCustomProviders(): Promise<ProviderDescriptor[]> {
+  const response = await fetch('/api/llm/providers');
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to load custom providers'));
+  }
+
+  const data = await response.json();
+  const providers: ProviderDescriptor[] = data.providers || [];
+  registerCustomProviders(providers);
+  return providers;
+}
+
+export async function saveCustomProvider(provider: ProviderDescriptor): Promise<ProviderDescriptor[]> {
+  const response = await fetch('/api/llm/providers', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(provider)
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to save provider'));
+  }
+
+  return await fetchCustomProviders();
+}
+
+export async function deleteCustomProvider(id: CustomProviderId): Promise<ProviderDescriptor[]> {
+  const response = await fetch(`/api/llm/providers?id=${encodeURIComponent(id)}`, {
+    method: 'DELETE'
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to delete provider'));
+  }
+
+  return await fetchCustomProviders();
+}
+
+export interface ModelListing {
+  models: ModelInfo[];
+  // 'static' means the provider could not be reached and the bundled list was used
+  source: 'live' | 'static';
+  error?: string;
+}
+
+// Models the provider currently serves; the server caches listings, refresh bypasses that cache
+export async function discoverModels(config: LLMConfig, refresh = false): Promise<ModelListing> {
+  const response = await fetch('/api/llm/models', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ config: { ...config, apiKey: undefined }, refresh })
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to discover models'));
+  }
+
+  const listing: ModelListing = await response.json();
+  if (listing.source === 'live') {
+    rememberModelPricing(config.provider, listing.models);
+  }
+  return listing;
+}
+
+// Checks the selected provider end to end on the server: key, endpoint, latency and model support
+export async function runProviderDiagnostics(config: LLMConfig): Promise<ProviderDiagnostics> {
+  const response = await fetch('/api/test-llm', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ config: { ...config, apiKey: undefined } })
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Diagnostics failed'));
+  }
+
+  return await response.json();
+}
+
+// A proxy request that never reached the server is a network problem, not a model failure
+async function proxyFetch(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    throw new NetworkError(`Could not reach the server: ${describeError(error)}`);
+  }
+}
+
+// Rebuilds the typed error the route reported, keeping the HTTP status so transient upstream errors can be retried
+async function readRequestError(response: Response, fallback: string): Promise<LLMError> {
+  try {
+    const data = await response.json();
+    return createLLMError(data.kind, data.error || fallback, { status: response.status, retryAfterMs: data.retryAfterMs });
+  } catch {
+    return createLLMError(undefined, `${fallback}: ${response.status} ${response.statusText}`, { status: response.status });
+  }
+}
+
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return `${fallback}: ${response.status} ${response.statusText}`;
+  }
+}
@@ -0,0 +1,260 @@
+import { LLMConfig, LLMResponse, LLMStreamDelta, Message, ModelInfo, TokenUsage } from '@/types';
+import { LLMProvider, TurnRequest } from './base';
+import { addUsage } from './catalog';
+import { createLLMError } from './errors';
+
+// Recorded model turns, replayed in place of a live provider for offline demos and tests.
+// Every turn is stored as the stream deltas it produced, so one recording serves both
+// streaming and non-streaming requests.
+export interface LLMFixture {
+  version: 1;
+  // Pause between replayed deltas, so a demo streams like a live model
+  delayMs?: number;
+  exchanges: RecordedExchange[];
+}
+
+export interface RecordedExchange {
+  // Hash of the conversation that was answered; exchanges written by hand may leave it out
+  // and are then matched by position only
+  key?: string;
+  // Which user message of the conversation this answered (from 1), and which model round
+  // within it (from 0; tool calls start a new round)
+  turn: number;
+  round: number;
+  // What was asked, for reading and editing fixtures by hand
+  request: { provider?: string; model?: string; lastMessage?: string; tools: string[] };
+  deltas: LLMStreamDelta[];
+}
+
+// Ids, timestamps and attachment payloads differ between runs, so they are left out of the key
+function conversationFingerprint({ messages, systemPrompt, tools }: Pick<TurnRequest, 'messages' | 'systemPrompt' | 'tools'>): string {
+  return JSON.stringify({
+    systemPrompt: systemPrompt || '',
+    tools: tools.map(tool => tool.name).sort(),
+    messages: messages.map(msg => ({
+      role: msg.role,
+      content: msg.content,
+      attachments: (msg.parts || []).flatMap(part => part.type === 'text' ? [] : [part.name]),
+      toolCalls: (msg.toolCalls || []).map(call => ({ name: call.name, arguments: call.arguments })),
+      toolResults: (msg.toolResults || []).map(result => ({ name: result.name, content: result.content }))
+    }))
+  });
+}
+
+// FNV-1a; only needs to tell conversations apart, and must run in the browser as well as on the server
+export function exchangeKey(request: Pick<TurnRequest, 'messages' | 'systemPrompt' | 'tools'>): string {
+  const text = conversationFingerprint(request);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function conversationPosition(messages: Message[]): { turn: number; round: number } {
+  const lastUser = messages.map(msg => msg.role).lastIndexOf('user');
+  return {
+    turn: messages.filter(msg => msg.role === 'user').length,
+    round: lastUser === -1 ? 0 : messages.slice(lastUser + 1).filter(msg => msg.role === 'assistant').length
+  };
+}
+
+// The exchange recorded for exactly this conversation, or else the one at the same position,
+// cycling through the recorded turns so a demo can go on for longer than the recording
+export function findExchange(fixture: LLMFixture, request: TurnRequest, strict = false): RecordedExchange | undefined {
+  const key = exchangeKey(request);
+  const exact = fixture.exchanges.find(exchange => exchange.key === key);
+  if (exact || strict) return exact;
+
+  // A turn recorded with tools would answer with tool calls nobody executes
+  const withTools = request.tools.length > 0;
+  const matching = fixture.exchanges.filter(exchange => exchange.request.tools.length > 0 === withTools);
+  const candidates = matching.length > 0 ? matching : fixture.exchanges;
+  const turns = [...new Set(candidates.map(exchange => exchange.turn))].sort((a, b) => a - b);
+  if (turns.length === 0) return undefined;
+
+  const position = conversationPosition(request.messages);
+  const turn = turns[Math.max(0, position.turn - 1) % turns.length];
+  const rounds = candidates.filter(exchange => exchange.turn === turn).sort((a, b) => a.round - b.round);
+  return rounds[Math.min(position.round, rounds.length - 1)];
+}
+
+export function responseToDeltas(response: LLMResponse): LLMStreamDelta[] {
+  const deltas: LLMStreamDelta[] = [];
+  if (response.reasoning) {
+    deltas.push({ type: 'reasoning', text: response.reasoning, signature: response.reasoningSignature });
+  }
+  if (response.content) {
+    deltas.push({ type: 'text', text: response.content });
+  }
+  (response.toolCalls || []).forEach(call => deltas.push({ type: 'tool_call', call }));
+  if (response.usage) {
+    deltas.push({ type: 'usage', usage: response.usage });
+  }
+  return deltas;
+}
+
+export function deltasToResponse(deltas: LLMStreamDelta[]): LLMResponse {
+  let content = '';
+  let reasoning = '';
+  let reasoningSignature: string | undefined;
+  let usage: TokenUsage | undefined;
+  const toolCalls: LLMResponse['toolCalls'] = [];
+
+  deltas.forEach(delta => {
+    if (delta.type === 'text') {
+      content += delta.text;
+    } else if (delta.type === 'reasoning') {
+      reasoning += delta.text;
+      reasoningSignature = delta.signature || reasoningSignature;
+    } else if (delta.type === 'tool_call') {
+      toolCalls.push(delta.call);
+    } else if (delta.type === 'usage') {
+      usage = addUsage(usage, delta.usage);
+    }
+  });
+
+  return { content, toolCalls, usage, reasoning: reasoning || undefined, reasoningSignature };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+export interface ReplayOptions {
+  // Fixture names, for the model list
+  listFixtures?: () => Promise<string[]>;
+  // Fail on any conversation that was not recorded exactly, instead of replaying by position
+  strict?: boolean;
+}
+
+// Serves recorded turns; the model name is the fixture name
+export class ReplayLLMProvider extends LLMProvider {
+  private loadFixture: (name: string) => Promise<LLMFixture>;
+  private options: ReplayOptions;
+  private fixture: Promise<LLMFixture> | null = null;
+
+  constructor(config: LLMConfig, loadFixture: (name: string) => Promise<LLMFixture>, options: ReplayOptions = {}) {
+    super(config);
+    this.loadFixture = loadFixture;
+    this.options = options;
+  }
+
+  async completeTurn(request: TurnRequest): Promise<LLMResponse> {
+    const exchange = await this.findExchange(request);
+    return deltasToResponse(exchange.deltas);
+  }
+
+  async *streamTurn(request: TurnRequest): AsyncGenerator<LLMStreamDelta> {
+    const fixture = await this.getFixture();
+    const exchange = await this.findExchange(request);
+    for (const delta of exchange.deltas) {
+      if (fixture.delayMs) {
+        await sleep(fixture.delayMs, request.signal);
+      }
+      yield delta;
+    }
+  }
+
+  // There is no key; the fixture has to load
+  async checkAccess(): Promise<void> {
+    await this.getFixture();
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const names = this.options.listFixtures ? await this.options.listFixtures() : [this.config.model];
+    return names.map(id => ({ id, contextWindow: 128000, pricing: { input: 0, output: 0 }, capabilities: { tools: true, vision: true } }));
+  }
+
+  private getFixture(): Promise<LLMFixture> {
+    if (!this.fixture) {
+      this.fixture = this.loadFixture(this.config.model);
+      // A failed load is retried on the next request
+      this.fixture.catch(() => {
+        this.fixture = null;
+      });
+    }
+    return this.fixture;
+  }
+
+  private async findExchange(request: TurnRequest): Promise<RecordedExchange> {
+    const exchange = findExchange(await this.getFixture(), request, this.options.strict);
+    if (!exchange) {
+      throw createLLMError('invalid_request', `Fixture ${this.config.model} has no recorded reply for this conversation`, { status: 404 });
+    }
+    return exchange;
+  }
+}
+
+// Passes every turn through to a live provider and hands what it returned to onExchange,
+// which saves it to a fixture
+export class RecordingLLMProvider extends LLMProvider {
+  private provider: LLMProvider;
+  private onExchange: (exchange: RecordedExchange) => Promise<void>;
+
+  constructor(config: LLMConfig, provider: LLMProvider, onExchange: (exchange: RecordedExchange) => Promise<void>) {
+    super(config);
+    this.provider = provider;
+    this.onExchange = onExchange;
+  }
+
+  async completeTurn(request: TurnRequest): Promise<LLMResponse> {
+    const response = await this.provider.completeTurn(request);
+    await this.record(request, responseToDeltas(response));
+    return response;
+  }
+
+  async *streamTurn(request: TurnRequest): AsyncGenerator<LLMStreamDelta> {
+    const deltas: LLMStreamDelta[] = [];
+    for await (const delta of this.provider.streamTurn(request)) {
+      deltas.push(delta);
+      yield delta;
+    }
+    // Only complete turns are worth replaying
+    await this.record(request, deltas);
+  }
+
+  // Embeddings are not part of a conversation, so they are passed through unrecorded
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    return this.provider.embed(texts, signal);
+  }
+
+  checkAccess(): Promise<void> {
+    return this.provider.checkAccess();
+  }
+
+  listModels(): Promise<ModelInfo[]> {
+    return this.provider.listModels();
+  }
+
+  private async record(request: TurnRequest, deltas: LLMStreamDelta[]): Promise<void> {
+    const lastMessage = request.messages[request.messages.length - 1];
+    try {
+      await this.onExchange({
+        key: exchangeKey(request),
+        ...conversationPosition(request.messages),
+        request: {
+          provider: this.config.provider,
+          model: this.config.model,
+          lastMessage: lastMessage?.content || undefined,
+          tools: request.tools.map(tool => tool.name)
+        },
+        deltas
+      });
+    } catch (error) {
+      // A failed recording must not fail the chat
+      console.error('⚠️ Failed to record LLM exchange:', error);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+// This file will run on the server side only
+import { LLMConfig, ModelInfo, ProviderDescriptor } from '@/types';
+import { LLMProvider, LLMProviderFactory } from './providers';
+import { ServerCredential, ServerCredentialStore } from './credentials';
+import { CustomProviderStore } from './custom-providers';
+import { BuiltinProviderId, getProviderDescriptor, isBuiltinProvider } from './registry';
+import { AuthenticationError } from './errors';
+import { FixtureStore } from './fixtures';
+import { RecordingLLMProvider } from './replay';
+
+export class MissingCredentialsError extends AuthenticationError {
+  constructor(provider: string) {
+    super(`No API key configured on the server for ${provider}. Set it in the server environment or save one in Settings.`, { status: 401 });
+    this.name = 'MissingCredentialsError';
+  }
+}
+
+export class UntrustedEndpointError extends AuthenticationError {
+  constructor(provider: string, baseUrl: string) {
+    super(`The ${provider} API key on the server is not sent to ${baseUrl}. Use the endpoint it was configured for, or save the key again for this one.`, { status: 403 });
+    this.name = 'UntrustedEndpointError';
+  }
+}
+
+// Server-wide default endpoints for providers whose base URL the user picks
+const BASE_URL_ENV: Partial<Record<BuiltinProviderId, string>> = {
+  'openai-compatible': 'OPENAI_COMPATIBLE_BASE_URL'
+};
+
+// Built-in providers come from the registry, user-defined ones from the server's own store,
+// never from whatever descriptor a browser might send
+export async function resolveProviderDescriptor(provider: string): Promise<ProviderDescriptor | undefined> {
+  if (isBuiltinProvider(provider)) {
+    return getProviderDescriptor(provider);
+  }
+  return await CustomProviderStore.getInstance().get(provider);
+}
+
+export async function isKnownProvider(provider: string): Promise<boolean> {
+  return Boolean(await resolveProviderDescriptor(provider));
+}
+
+// Builds a real SDK provider for a config sent by the browser, injecting the server-held key
+export async function createServerProvider(config: LLMConfig): Promise<LLMProvider> {
+  const descriptor = await resolveProviderDescriptor(config.provider);
+  if (!descriptor) {
+    throw new Error(`Unsupported LLM provider: ${config.provider}`);
+  }
+
+  const credential = await ServerCredentialStore.getInstance().getCredential(config.provider);
+  if (!credential && descriptor.requiresApiKey) {
+    throw new MissingCredentialsError(descriptor.name);
+  }
+
+  // The browser picks a self-hosted provider's endpoint, so it must not be able to aim the key elsewhere
+  const baseUrl = resolveBaseUrl(config, descriptor);
+  if (credential && descriptor.customBaseUrl && baseUrl && normalizeBaseUrl(baseUrl) !== keyEndpoint(descriptor, credential)) {
+    throw new UntrustedEndpointError(descriptor.name, baseUrl);
+  }
+
+  return withRecording(config, descriptor, LLMProviderFactory.createProvider({ ...config, apiKey: credential?.apiKey, baseUrl }, descriptor));
+}
+
+export function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '');
+}
+
+// The one endpoint a self-hosted provider's key goes to: the one a settings key was saved for,
+// otherwise the server-wide endpoint (or the provider's default) that the environment key belongs to
+function keyEndpoint(descriptor: ProviderDescriptor, credential: ServerCredential): string {
+  return normalizeBaseUrl(credential.endpoint || defaultBaseUrl(descriptor) || '');
+}
+
+function defaultBaseUrl(descriptor: ProviderDescriptor): string | undefined {
+  const envName = isBuiltinProvider(descriptor.id) ? BASE_URL_ENV[descriptor.id] : undefined;
+  return (envName && process.env[envName]) || descriptor.baseUrl;
+}
+
+// Self-hosted servers use the config's endpoint or the server-wide default; every other provider
+// talks to its registered endpoint so a server-held key is never sent elsewhere
+export function resolveBaseUrl(config: LLMConfig, descriptor: ProviderDescriptor): string | undefined {
+  if (!descriptor.customBaseUrl) return descriptor.baseUrl;
+  return config.baseUrl?.trim() || defaultBaseUrl(descriptor);
+}
+
+// With LLM_RECORD_FIXTURE set to a fixture name, every live exchange is saved there for replay
+function withRecording(config: LLMConfig, descriptor: ProviderDescriptor, provider: LLMProvider): LLMProvider {
+  const fixture = process.env.LLM_RECORD_FIXTURE;
+  if (!fixture || descriptor.api === 'replay') return provider;
+  return new RecordingLLMProvider(config, provider, exchange => FixtureStore.getInstance().append(fixture, exchange));
+}
+
+const MODEL_CACHE_TTL_MS = 60 * 60 * 1000;
+const modelCache = new Map<string, { models: ModelInfo[]; expiresAt: number }>();
+
+// Self-hosted servers are cached per endpoint, cloud providers per provider
+function modelCacheKey(config: LLMConfig): string {
+  return getProviderDescriptor(config.provider)?.customBaseUrl ? `${config.provider}:${config.baseUrl?.trim() || ''}` : config.provider;
+}
+
+// Live model listing for a provider, cached for an hour unless a refresh is requested
+export async function listServerModels(config: LLMConfig, refresh = false): Promise<ModelInfo[]> {
+  const cacheKey = modelCacheKey(config);
+  const cached = modelCache.get(cacheKey);
+  if (cached && !refresh && cached.expiresAt > Date.now()) {
+    return cached.models;
+  }
+
+  const provider = await createServerProvider({ ...config, model: config.model || '' });
+  const models = await provider.listModels();
+  modelCache.set(cacheKey, { models, expiresAt: Date.now() + MODEL_CACHE_TTL_MS });
+  return models;
+}
+
+// A different key may see a different set of models
+export function clearModelCache(provider: string) {
+  for (const key of modelCache.keys()) {
+    if (key === provider || key.startsWith(`${provider}:`)) {
+      modelCache.delete(key);
+    }
+  }
+}
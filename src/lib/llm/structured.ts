@@ -0,0 +1,90 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import { ResponseFormat, StructuredOutput } from '@/types';
+
+const ajv = new Ajv({ allErrors: true });
+// Compiling is the expensive part and the same schema is usually sent many times
+const validators = new Map<string, ValidateFunction>();
+
+function getValidator(schema: Record<string, unknown>): ValidateFunction {
+  const key = JSON.stringify(schema);
+  let validator = validators.get(key);
+  if (!validator) {
+    // Validation follows draft-07; a newer $schema URI would otherwise be rejected as unknown
+    const draft07Schema = { ...schema };
+    delete draft07Schema.$schema;
+    validator = ajv.compile(draft07Schema);
+    validators.set(key, validator);
+  }
+  return validator;
+}
+
+// Parses the schema typed into the chat input; returns an error message when it is unusable
+export function checkResponseSchema(text: string): { schema?: Record<string, unknown>; error?: string } {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (error) {
+    return { error: `Not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return { error: 'The schema must be a JSON object' };
+  }
+
+  try {
+    getValidator(schema as Record<string, unknown>);
+  } catch (error) {
+    return { error: `Invalid JSON Schema: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  return { schema: schema as Record<string, unknown> };
+}
+
+export function toResponseFormat(schema: Record<string, unknown>): ResponseFormat {
+  const title = typeof schema.title === 'string' ? schema.title : '';
+  const name = title.replace(/[^a-zA-Z0-9_-]+/g, '_').slice(0, 64) || 'response';
+  return { type: 'json_schema', name, schema };
+}
+
+// Models sometimes wrap JSON in a code fence or add a sentence around it
+function extractJson(content: string): unknown {
+  const text = content.trim().replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/, '$1').trim();
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const start = text.search(/[{[]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start >= 0 && end > start) {
+      return JSON.parse(text.slice(start, end + 1));
+    }
+    throw error;
+  }
+}
+
+// Parses a reply and checks it against the requested schema
+export function parseStructuredReply(content: string, format: ResponseFormat): StructuredOutput {
+  let data: unknown;
+  try {
+    data = extractJson(content);
+  } catch (error) {
+    return {
+      schemaName: format.name,
+      errors: [`The reply is not valid JSON: ${error instanceof Error ? error.message : String(error)}`]
+    };
+  }
+
+  const validate = getValidator(format.schema);
+  const errors = validate(data)
+    ? []
+    : (validate.errors || []).map(error => `${error.dataPath || '(root)'} ${error.message}`);
+  return { schemaName: format.name, data, errors };
+}
+
+// Sent back to the model after an invalid reply so it can correct itself once
+export function buildRepairPrompt(output: StructuredOutput): string {
+  return `Your reply did not match the required JSON Schema:\n${output.errors.map(error => `- ${error}`).join('\n')}\n\nReply again with only the corrected JSON value.`;
+}
+
+// For providers with no native structured output, the schema goes into the system prompt
+export function withSchemaInstruction(systemPrompt: string | undefined, format: ResponseFormat): string {
+  const instruction = `Respond with only a JSON value that conforms to this JSON Schema, with no other text:\n${JSON.stringify(format.schema)}`;
+  return systemPrompt ? `${systemPrompt}\n\n${instruction}` : instruction;
+}
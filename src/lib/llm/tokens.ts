@@ -0,0 +1,65 @@
+import { Message, MCPTool } from '@/types';
+import { getProviderDescriptor } from './registry';
+
+// BPE-style token estimator. Tokenizers split text into words, number groups and punctuation,
+// and break long or rare words into several sub-word pieces; this mirrors that closely enough
+// to budget a context window without shipping a multi-megabyte vocabulary to the browser.
+const TOKEN_PATTERN = /[぀-ヿ㐀-鿿가-힯]|\p{L}+|\p{N}{1,3}|\s+|[^\s\p{L}\p{N}]/gu;
+
+// Role markers and separators each chat message adds on the wire
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Images are billed by tile; a downscaled ~1500px image lands around this on every provider
+const IMAGE_TOKENS = 1200;
+// PDFs are sent as page text plus page images, roughly 1.5k tokens per 50 KB page
+const PDF_TOKENS_PER_KB = 30;
+
+export function estimateTokens(text: string, provider?: string): number {
+  if (!text) return 0;
+
+  let tokens = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const piece = match[0];
+    if (/^\s+$/.test(piece)) {
+      // Single spaces merge into the next word; runs of whitespace and newlines do not
+      tokens += piece === ' ' ? 0 : Math.ceil(piece.length / 4);
+    } else if (/^\p{L}+$/u.test(piece) && piece.length > 6) {
+      // Common words are a single token; longer words split roughly every four characters
+      tokens += Math.ceil(piece.length / 4);
+    } else {
+      tokens += 1;
+    }
+  }
+
+  // Llama/Mistral-family and Claude tokenizers have smaller vocabularies than OpenAI's o200k/cl100k,
+  // so the same text costs them somewhat more tokens
+  const factor = (provider && getProviderDescriptor(provider)?.tokenFactor) || 1.1;
+  return Math.ceil(tokens * factor);
+}
+
+export function estimateMessageTokens(message: Message, provider?: string): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content, provider);
+  (message.parts || []).forEach(part => {
+    if (part.type === 'image') {
+      tokens += IMAGE_TOKENS;
+    } else if (part.type === 'file') {
+      tokens += part.mimeType === 'application/pdf'
+        ? Math.ceil(part.size / 1024 * PDF_TOKENS_PER_KB)
+        : Math.ceil(part.size / 4);
+    }
+  });
+  (message.toolCalls || []).forEach(call => {
+    tokens += estimateTokens(call.name + JSON.stringify(call.arguments), provider);
+  });
+  (message.toolResults || []).forEach(result => {
+    tokens += estimateTokens(result.content, provider);
+  });
+  return tokens;
+}
+
+// Tool schemas are sent with every request and count against the context window
+export function estimateToolTokens(tools: MCPTool[], provider?: string): number {
+  return tools.reduce((total, tool) =>
+    total + estimateTokens(`${tool.name} ${tool.description} ${JSON.stringify(tool.inputSchema)}`, provider), 0
+  );
+}
@@ -1,4 +1,4 @@
-import { MCPServerConfig, MCPTool, MCPResource } from '@/types';
+import { MCPServerConfig, MCPTool, MCPResource, MCPResourceContents, MCPResourceTemplate, MCPPrompt, MCPPromptMessage, ToolCall, ToolResult } from '@/types';
 
 // Browser-compatible MCP client that communicates with server-side API
 export class MCPClient {
@@ -11,67 +11,27 @@ export class MCPClient {
 
   async connect(): Promise<void> {
     try {
-      // For now, simulate connection success for all transport types
-      // In a real implementation, this would:
-      // - For stdio: start the process via server API
-      // - For SSE: establish EventSource connection
-      // - For WebSocket: establish WebSocket connection
-      
-      if (this.config.transport === 'stdio') {
-        const response = await fetch('/api/mcp/servers', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            id: this.config.id,
-            name: this.config.name,
-            command: this.config.command,
-            args: this.config.args,
-            env: this.config.env
-          })
-        });
-
-        if (!response.ok) {
-          const error = await response.json();
-          throw new Error(error.error || 'Failed to connect to stdio MCP server');
-        }
-      } else if (this.config.transport === 'sse') {
-        // For SSE, test the connection to the URL
-        if (!this.config.url) {
-          throw new Error('SSE URL is required');
-        }
-        
-        console.log(`🔍 Testing SSE connection to: ${this.config.url}`);
-        
-        // Test SSE endpoint availability
-        try {
-          const response = await fetch(this.config.url, {
-            method: 'HEAD',
-            headers: {
-              ...this.config.headers,
-              'Accept': 'text/event-stream'
-            }
-          });
-          
-          console.log(`📡 SSE endpoint response: ${response.status} ${response.statusText}`);
-          
-          if (!response.ok && response.status !== 405) { // 405 Method Not Allowed is okay for HEAD requests
-            throw new Error(`SSE endpoint unavailable: ${response.status}`);
-          }
-        } catch (fetchError) {
-          console.warn('⚠️ SSE endpoint test failed, proceeding with connection attempt:', fetchError);
-          // Continue anyway as some servers might not support HEAD requests
-        }
-      } else if (this.config.transport === 'websocket') {
-        // For WebSocket, validate URL format
-        if (!this.config.url) {
-          throw new Error('WebSocket URL is required');
-        }
-        
-        if (!this.config.url.startsWith('ws://') && !this.config.url.startsWith('wss://')) {
-          throw new Error('WebSocket URL must start with ws:// or wss://');
-        }
+      // Every transport is opened by the server-side SDK client; the browser only talks to the API routes
+      const response = await fetch('/api/mcp/servers', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          id: this.config.id,
+          name: this.config.name,
+          transport: this.config.transport || 'stdio',
+          command: this.config.command,
+          args: this.config.args,
+          env: this.config.env,
+          url: this.config.url,
+          headers: this.config.headers
+        })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to connect to ${this.config.transport} MCP server`);
       }
 
       this.isConnected = true;
@@ -97,50 +57,18 @@ export class MCPClient {
 
   async listTools(): Promise<MCPTool[]> {
     try {
-      if (this.config.transport === 'sse') {
-        // For SSE servers, call the tools endpoint directly
-        const toolsUrl = `${this.config.url.replace('/events', '').replace('/sse', '')}/tools`;
-        console.log(`🔍 Fetching tools from: ${toolsUrl}`);
-        
-        const response = await fetch(toolsUrl, {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            ...this.config.headers
-          }
-        });
-        
-        if (!response.ok) {
-          console.warn(`⚠️ Failed to fetch tools from ${toolsUrl}: ${response.status} ${response.statusText}`);
-          throw new Error(`Failed to fetch tools: ${response.status} ${response.statusText}`);
-        }
-
-        const data = await response.json();
-        console.log('🔧 Available tools:', data);
-        
-        // Handle different response formats
-        const tools = data.tools || data || [];
-        return tools.map((tool: any) => ({
-          name: tool.name || tool,
-          description: tool.description || `MCP tool: ${tool.name || tool}`,
-          inputSchema: tool.inputSchema || tool.schema
-        }));
-        
-      } else {
-        // For stdio servers, use the existing API route
-        const response = await fetch(`/api/mcp/tools?serverId=${encodeURIComponent(this.config.id)}`);
-        
-        if (!response.ok) {
-          throw new Error('Failed to list tools');
-        }
-
-        const data = await response.json();
-        return data.tools.map((tool: { name: string; description?: string; inputSchema?: unknown }) => ({
-          name: tool.name,
-          description: tool.description || '',
-          inputSchema: tool.inputSchema
-        }));
+      const response = await fetch(`/api/mcp/tools?serverId=${encodeURIComponent(this.config.id)}`);
+      
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to list tools');
       }
+
+      return data.tools.map((tool: { name: string; description?: string; inputSchema?: unknown }) => ({
+        name: tool.name,
+        description: tool.description || '',
+        inputSchema: tool.inputSchema
+      }));
     } catch (error) {
       console.error('Failed to list tools:', error);
       throw error;
@@ -152,50 +80,25 @@ export class MCPClient {
       console.log(`🔧 Calling MCP tool: ${name} on ${this.config.transport} server ${this.config.name}`);
       console.log('📝 Tool arguments:', arguments_);
       
-      if (this.config.transport === 'sse') {
-        // For SSE servers, make direct HTTP calls to tool endpoints
-        const toolUrl = `${this.config.url.replace('/events', '').replace('/sse', '')}/tools/${name}`;
-        console.log(`🎯 Tool URL: ${toolUrl}`);
-        
-        const response = await fetch(toolUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            ...this.config.headers
-          },
-          body: JSON.stringify(arguments_)
-        });
-
-        if (!response.ok) {
-          throw new Error(`Tool call failed: ${response.status} ${response.statusText}`);
-        }
-
-        const result = await response.json();
-        console.log('✅ Tool result:', result);
-        return result;
-        
-      } else {
-        // For stdio servers, use the existing API route
-        const response = await fetch('/api/mcp/tools', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            serverId: this.config.id,
-            toolName: name,
-            arguments: arguments_
-          })
-        });
-
-        if (!response.ok) {
-          const error = await response.json();
-          throw new Error(error.error || 'Failed to call tool');
-        }
-
-        const data = await response.json();
-        return data.result;
+      const response = await fetch('/api/mcp/tools', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          serverId: this.config.id,
+          toolName: name,
+          arguments: arguments_
+        })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to call tool');
       }
+
+      const data = await response.json();
+      return data.result;
     } catch (error) {
       console.error(`❌ Failed to call tool ${name}:`, error);
       throw error;
@@ -203,13 +106,89 @@ export class MCPClient {
   }
 
   async listResources(): Promise<MCPResource[]> {
-    // For now, return empty array - resources can be implemented similarly to tools
-    return [];
+    const response = await fetch(`/api/mcp/resources?serverId=${encodeURIComponent(this.config.id)}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to list resources');
+    }
+
+    const data = await response.json();
+    return data.resources.map((resource: MCPResource) => ({
+      uri: resource.uri,
+      name: resource.name || resource.uri,
+      description: resource.description,
+      mimeType: resource.mimeType
+    }));
   }
 
-  async readResource(_uri: string): Promise<string> {
-    // For now, return empty string - resources can be implemented similarly to tools
-    return '';
+  async listResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    const response = await fetch(`/api/mcp/resources/templates?serverId=${encodeURIComponent(this.config.id)}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to list resource templates');
+    }
+
+    const data = await response.json();
+    return data.resourceTemplates.map((template: MCPResourceTemplate) => ({
+      uriTemplate: template.uriTemplate,
+      name: template.name || template.uriTemplate,
+      description: template.description,
+      mimeType: template.mimeType
+    }));
+  }
+
+  async readResource(uri: string): Promise<MCPResourceContents[]> {
+    const response = await fetch('/api/mcp/resources', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ serverId: this.config.id, uri })
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || `Failed to read ${uri}`);
+    }
+
+    const data = await response.json();
+    return data.contents;
+  }
+
+  async listPrompts(): Promise<MCPPrompt[]> {
+    const response = await fetch(`/api/mcp/prompts?serverId=${encodeURIComponent(this.config.id)}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to list prompts');
+    }
+
+    const data = await response.json();
+    return data.prompts.map((prompt: MCPPrompt) => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: prompt.arguments || []
+    }));
+  }
+
+  async getPrompt(name: string, args: Record<string, string>): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+    const response = await fetch('/api/mcp/prompts', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ serverId: this.config.id, name, arguments: args })
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || `Failed to get prompt ${name}`);
+    }
+
+    return await response.json();
   }
 
   getConnectionStatus(): boolean {
@@ -250,39 +229,114 @@ export class MCPClientManager {
     this.clients.clear();
   }
   
-  async getServerTools(serverId: string): Promise<string[]> {
+  // Full tool definitions (with input schemas) tagged with their server, for native tool calling
+  async getServerToolDefinitions(serverId: string): Promise<MCPTool[]> {
     const client = this.clients.get(serverId);
     if (!client || !client.getConnectionStatus()) {
-      console.log(`⚠️ Server ${serverId} not connected or not found`);
-      return [];
+      throw new Error(`MCP server ${serverId} is not connected`);
     }
-    
+
+    const tools = await client.listTools();
+    return tools.map(tool => ({
+      ...tool,
+      inputSchema: tool.inputSchema || { type: 'object', properties: {} },
+      serverId
+    }));
+  }
+
+  // Executes a model-requested tool call; failures are returned as error results so the model can recover
+  async executeToolCall(call: ToolCall, tools: MCPTool[]): Promise<ToolResult> {
+    const tool = tools.find(t => t.name === call.name);
+    const client = tool?.serverId ? this.clients.get(tool.serverId) : undefined;
+
+    if (!client) {
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        content: `Tool "${call.name}" is not available on any connected MCP server`,
+        isError: true
+      };
+    }
+
     try {
-      console.log(`🔍 Getting tools for server: ${serverId} (${client.config.transport})`);
-      const tools = await client.listTools();
-      const toolNames = tools.map(tool => tool.name);
-      console.log(`✅ Found ${toolNames.length} tools for ${serverId}:`, toolNames);
-      return toolNames;
+      const result = await client.callTool(call.name, call.arguments);
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        content: formatToolResult(result),
+        isError: isErrorResult(result)
+      };
     } catch (error) {
-      console.error(`❌ Failed to get tools for server ${serverId}:`, error);
-      
-      // For SSE servers that fail, try to provide default tools based on common MCP patterns
-      if (client.config.transport === 'sse') {
-        console.log(`🛠️ Using default tools for SSE server ${serverId}`);
-        console.log(`📝 Make sure your Spring Boot server has these endpoints:`);
-        console.log(`   GET ${client.config.url}/tools - to list available tools`);
-        console.log(`   POST ${client.config.url}/tools/{toolName} - to execute tools`);
-        return ['createNote', 'listFaqs']; // Based on your Spring Boot code
-      }
-      
-      // Return demo tools based on server ID for demonstration
-      if (serverId === 'demo-server-1') {
-        return ['file_read', 'file_write', 'file_list', 'dir_create', 'search_files'];
-      } else if (serverId === 'demo-server-2') {
-        return ['web_scrape', 'api_call', 'http_request', 'json_parse', 'url_validate'];
-      }
-      
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        content: error instanceof Error ? error.message : String(error),
+        isError: true
+      };
+    }
+  }
+
+  // Resources and resource templates a server offers, tagged with the server
+  async getServerResources(serverId: string): Promise<{ resources: MCPResource[]; templates: MCPResourceTemplate[] }> {
+    const client = this.clients.get(serverId);
+    if (!client || !client.getConnectionStatus()) {
+      return { resources: [], templates: [] };
+    }
+
+    const [resources, templates] = await Promise.all([client.listResources(), client.listResourceTemplates()]);
+    return {
+      resources: resources.map(resource => ({ ...resource, serverId })),
+      templates: templates.map(template => ({ ...template, serverId }))
+    };
+  }
+
+  async readResource(serverId: string, uri: string): Promise<MCPResourceContents[]> {
+    const client = this.clients.get(serverId);
+    if (!client) {
+      throw new Error(`MCP server ${serverId} is not connected`);
+    }
+    return await client.readResource(uri);
+  }
+
+  async getServerPrompts(serverId: string): Promise<MCPPrompt[]> {
+    const client = this.clients.get(serverId);
+    if (!client || !client.getConnectionStatus()) {
       return [];
     }
+
+    const prompts = await client.listPrompts();
+    return prompts.map(prompt => ({ ...prompt, serverId }));
+  }
+
+  async getPrompt(serverId: string, name: string, args: Record<string, string>): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+    const client = this.clients.get(serverId);
+    if (!client) {
+      throw new Error(`MCP server ${serverId} is not connected`);
+    }
+    return await client.getPrompt(name, args);
   }
 }
+
+
+// MCP tool results are `{ content: [{ type: 'text', text }, ...], isError }`; flatten them for the model
+function formatToolResult(result: unknown): string {
+  if (typeof result === 'string') return result;
+
+  const content = (result as { content?: unknown })?.content;
+  if (Array.isArray(content)) {
+    return content
+      .map(part => {
+        const typedPart = part as { type?: string; text?: string };
+        return typedPart.type === 'text' && typeof typedPart.text === 'string'
+          ? typedPart.text
+          : JSON.stringify(part);
+      })
+      .join('\n');
+  }
+
+  return JSON.stringify(result);
+}
+
+function isErrorResult(result: unknown): boolean {
+  return Boolean((result as { isError?: boolean })?.isError);
+}
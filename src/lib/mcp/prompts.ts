@@ -0,0 +1,46 @@
+import { MCPPrompt, MCPPromptMessage } from '@/types';
+import { AttachmentPart, createResourceAttachmentParts } from '@/lib/memory/attachments';
+
+// A rendered prompt as chat turns; MCP sends one content item per message, so runs from one role are merged
+export interface PromptTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  attachments: AttachmentPart[];
+}
+
+// Prompts whose name or title contains what was typed after the slash
+export function filterPrompts(prompts: MCPPrompt[], query: string): MCPPrompt[] {
+  const needle = query.toLowerCase();
+  return prompts.filter(prompt =>
+    prompt.name.toLowerCase().includes(needle) || Boolean(prompt.title?.toLowerCase().includes(needle))
+  );
+}
+
+export async function toPromptTurns(messages: MCPPromptMessage[]): Promise<PromptTurn[]> {
+  const turns: PromptTurn[] = [];
+
+  for (const message of messages) {
+    let turn = turns[turns.length - 1];
+    if (!turn || turn.role !== message.role) {
+      turn = { role: message.role, content: '', attachments: [] };
+      turns.push(turn);
+    }
+
+    const { content } = message;
+    if (content.type === 'text' || content.type === 'resource_link') {
+      const text = content.type === 'text' ? content.text : `${content.name}: ${content.uri}`;
+      turn.content = turn.content ? `${turn.content}\n\n${text}` : text;
+    } else if (content.type === 'resource') {
+      const name = content.resource.uri.split('/').filter(Boolean).pop() || content.resource.uri;
+      turn.attachments.push(...await createResourceAttachmentParts(name, [content.resource]));
+    } else {
+      // Images (and audio, which attachments refuse) arrive as base64 like a binary resource
+      const parts = await createResourceAttachmentParts(`${content.type}-${turns.length}`, [
+        { uri: '', mimeType: content.mimeType, blob: content.data }
+      ]);
+      turn.attachments.push(...parts);
+    }
+  }
+
+  return turns;
+}
@@ -1,22 +1,108 @@
 // This file will run on the server side only
-import { ChildProcess } from 'child_process';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { MCPServerConfig, MCPServerHealth, MCPServerStatus, MCPTransportType } from '@/types';
+import { NodeWebSocketTransport } from './websocket-transport';
+
+export type MCPServerLaunchConfig = Pick<MCPServerConfig, 'id' | 'name' | 'transport' | 'command' | 'args' | 'env' | 'url' | 'headers'>;
 
 interface MCPServerProcess {
   id: string;
   name: string;
-  command: string;
-  args: string[];
-  process: ChildProcess | null;
+  transportType: MCPTransportType;
+  config: MCPServerLaunchConfig;
+  status: MCPServerStatus;
+  // Set only while the server can take requests
   client: Client | null;
-  transport: StdioClientTransport | null;
-  isConnected: boolean;
+  transport: Transport | null;
+  pid?: number;
+  restarts: number;
+  // When the server went away recently; too many in the window means it is crash-looping
+  crashTimes: number[];
+  failedPings: number;
+  pingMs?: number;
+  lastError?: string;
+  // The end of what a stdio server wrote to stderr, which usually says why it died
+  stderrTail: string;
+  restartTimer: NodeJS.Timeout | null;
+  nextRestartAt?: number;
+}
+
+const HEALTH_CHECK_INTERVAL_MS = 30000;
+const PING_TIMEOUT_MS = 10000;
+// A server that misses this many pings in a row is hung, and is restarted like a crashed one
+const MAX_FAILED_PINGS = 3;
+// Restarts back off exponentially: 1s, 2s, 4s... capped at 30s
+const RESTART_BASE_DELAY_MS = 1000;
+const RESTART_MAX_DELAY_MS = 30000;
+const CRASH_LOOP_LIMIT = 5;
+const CRASH_LOOP_WINDOW_MS = 5 * 60 * 1000;
+const STDERR_TAIL_CHARS = 2000;
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Why a server went away, preferring its own last words on stderr
+function describeCrash(serverProcess: MCPServerProcess): string {
+  const lastLine = serverProcess.stderrTail.trim().split('\n').pop()?.trim();
+  return lastLine || serverProcess.lastError || 'Connection closed';
+}
+
+function parseServerUrl(config: MCPServerLaunchConfig): URL {
+  if (!config.url) {
+    throw new Error(`URL is required for ${config.transport} transport`);
+  }
+  try {
+    return new URL(config.url);
+  } catch {
+    throw new Error(`Invalid server URL: ${config.url}`);
+  }
+}
+
+// Every transport speaks the same JSON-RPC protocol, so the client on top is identical
+function createTransport(config: MCPServerLaunchConfig): Transport {
+  switch (config.transport) {
+    case 'stdio':
+      if (!config.command) {
+        throw new Error('Command is required for stdio transport');
+      }
+      return new StdioClientTransport({
+        command: config.command,
+        args: config.args || [],
+        env: { ...process.env, ...config.env },
+        stderr: 'pipe'
+      });
+    case 'sse':
+      // The headers go on both the event stream and the message POSTs
+      return new SSEClientTransport(parseServerUrl(config), {
+        requestInit: { headers: config.headers }
+      });
+    case 'streamable-http':
+      return new StreamableHTTPClientTransport(parseServerUrl(config), {
+        requestInit: { headers: config.headers }
+      });
+    case 'websocket': {
+      const url = parseServerUrl(config);
+      if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+        throw new Error('WebSocket URL must start with ws:// or wss://');
+      }
+      return new NodeWebSocketTransport(url, { headers: config.headers });
+    }
+    default:
+      throw new Error(`Unsupported MCP transport: ${config.transport}`);
+  }
 }
 
 export class ServerSideMCPManager {
   private static instance: ServerSideMCPManager;
   private servers: Map<string, MCPServerProcess> = new Map();
+  private listeners: Set<(health: MCPServerHealth) => void> = new Set();
+  private healthTimer: NodeJS.Timeout | null = null;
 
   private constructor() {}
 
@@ -27,56 +113,38 @@ export class ServerSideMCPManager {
     return ServerSideMCPManager.instance;
   }
 
-  async addServer(config: {
-    id: string;
-    name: string;
-    command: string;
-    args: string[];
-    env?: Record<string, string>;
-  }): Promise<void> {
+  async addServer(config: MCPServerLaunchConfig): Promise<void> {
+    // Reconnecting replaces the old connection rather than leaking it
+    await this.removeServer(config.id);
+
     const serverProcess: MCPServerProcess = {
       id: config.id,
       name: config.name,
-      command: config.command,
-      args: config.args,
-      process: null,
+      transportType: config.transport,
+      config,
+      status: 'starting',
       client: null,
       transport: null,
-      isConnected: false
+      restarts: 0,
+      crashTimes: [],
+      failedPings: 0,
+      stderrTail: '',
+      restartTimer: null
     };
+    // Registered while starting, so the status feed shows the attempt
+    this.servers.set(config.id, serverProcess);
+    this.emit(serverProcess);
 
     try {
-      // Create the transport first
-      const transport = new StdioClientTransport({
-        command: config.command,
-        args: config.args,
-        env: { ...process.env, ...config.env }
-      });
-
-      serverProcess.transport = transport;
-
-      // Create client with proper capabilities
-      const client = new Client({
-        name: 'mcp-nextjs-server',
-        version: '1.0.0'
-      }, {
-        capabilities: {
-          sampling: {},
-          tools: {},
-          resources: {}
-        }
-      });
-
-      // Connect client to transport
-      await client.connect(transport);
-      serverProcess.client = client;
-      serverProcess.isConnected = true;
-
-      console.log(`Successfully connected to MCP server: ${config.name}`);
-      this.servers.set(config.id, serverProcess);
-
+      await this.connect(serverProcess);
+      console.log(`Successfully connected to MCP server: ${config.name} (${config.transport})`);
+      this.ensureHealthChecks();
     } catch (error) {
       console.error(`Failed to start MCP server ${config.name}:`, error);
+      // A server that never started is not restarted; the user fixes the config and adds it again
+      serverProcess.lastError = describeError(error);
+      this.setStatus(serverProcess, 'crashed');
+      this.servers.delete(config.id);
       throw error;
     }
   }
@@ -85,28 +153,30 @@ export class ServerSideMCPManager {
     const server = this.servers.get(serverId);
     if (!server) return;
 
+    // Removed first, so closing the connection is not mistaken for a crash to restart from
+    this.servers.delete(serverId);
+    if (server.restartTimer) {
+      clearTimeout(server.restartTimer);
+    }
+    const client = server.client;
+    server.client = null;
+    server.status = 'stopped';
+    server.nextRestartAt = undefined;
+    this.emit(server);
+
     try {
-      if (server.client) {
-        await server.client.close();
-      }
-      if (server.process) {
-        server.process.kill();
-      }
+      // Closing the stdio transport also ends the child process
+      await client?.close();
     } catch (error) {
       console.error(`Error removing server ${serverId}:`, error);
     }
-
-    this.servers.delete(serverId);
   }
 
   async listTools(serverId: string): Promise<unknown[]> {
-    const server = this.servers.get(serverId);
-    if (!server || !server.client || !server.isConnected) {
-      throw new Error('Server not found or not connected');
-    }
+    const client = this.requireClient(serverId);
 
     try {
-      const response = await server.client.listTools();
+      const response = await client.listTools();
       return response.tools || [];
     } catch (error) {
       console.error(`Failed to list tools for server ${serverId}:`, error);
@@ -115,13 +185,10 @@ export class ServerSideMCPManager {
   }
 
   async callTool(serverId: string, toolName: string, args: Record<string, unknown>): Promise<unknown> {
-    const server = this.servers.get(serverId);
-    if (!server || !server.client || !server.isConnected) {
-      throw new Error('Server not found or not connected');
-    }
+    const client = this.requireClient(serverId);
 
     try {
-      const response = await server.client.callTool({
+      const response = await client.callTool({
         name: toolName,
         arguments: args
       });
@@ -133,13 +200,15 @@ export class ServerSideMCPManager {
   }
 
   async listResources(serverId: string): Promise<unknown[]> {
-    const server = this.servers.get(serverId);
-    if (!server || !server.client || !server.isConnected) {
-      throw new Error('Server not found or not connected');
+    const client = this.requireClient(serverId);
+
+    // Servers without the resources capability would answer "method not found"
+    if (!client.getServerCapabilities()?.resources) {
+      return [];
     }
 
     try {
-      const response = await server.client.listResources();
+      const response = await client.listResources();
       return response.resources || [];
     } catch (error) {
       console.error(`Failed to list resources for server ${serverId}:`, error);
@@ -147,24 +216,83 @@ export class ServerSideMCPManager {
     }
   }
 
+  async listResourceTemplates(serverId: string): Promise<unknown[]> {
+    const client = this.requireClient(serverId);
+
+    if (!client.getServerCapabilities()?.resources) {
+      return [];
+    }
+
+    try {
+      const response = await client.listResourceTemplates();
+      return response.resourceTemplates || [];
+    } catch (error) {
+      console.error(`Failed to list resource templates for server ${serverId}:`, error);
+      throw error;
+    }
+  }
+
+  async readResource(serverId: string, uri: string): Promise<unknown[]> {
+    const client = this.requireClient(serverId);
+
+    try {
+      const response = await client.readResource({ uri });
+      return response.contents || [];
+    } catch (error) {
+      console.error(`Failed to read resource ${uri} from server ${serverId}:`, error);
+      throw error;
+    }
+  }
+
+  async listPrompts(serverId: string): Promise<unknown[]> {
+    const client = this.requireClient(serverId);
+
+    if (!client.getServerCapabilities()?.prompts) {
+      return [];
+    }
+
+    try {
+      const response = await client.listPrompts();
+      return response.prompts || [];
+    } catch (error) {
+      console.error(`Failed to list prompts for server ${serverId}:`, error);
+      throw error;
+    }
+  }
+
+  async getPrompt(serverId: string, name: string, args: Record<string, string>): Promise<{ description?: string; messages: unknown[] }> {
+    const client = this.requireClient(serverId);
+
+    try {
+      const response = await client.getPrompt({ name, arguments: args });
+      return { description: response.description, messages: response.messages || [] };
+    } catch (error) {
+      console.error(`Failed to get prompt ${name} from server ${serverId}:`, error);
+      throw error;
+    }
+  }
+
   getServerStatus(serverId: string): boolean {
-    const server = this.servers.get(serverId);
-    return server?.isConnected || false;
+    return Boolean(this.servers.get(serverId)?.client);
+  }
+
+  getAllServers(): MCPServerHealth[] {
+    return Array.from(this.servers.values()).map(server => this.toHealth(server));
   }
 
-  getAllServers(): Array<{ id: string; name: string; isConnected: boolean }> {
-    return Array.from(this.servers.values()).map(server => ({
-      id: server.id,
-      name: server.name,
-      isConnected: server.isConnected
-    }));
+  // Calls the listener with every status change until the returned function is called
+  subscribe(listener: (health: MCPServerHealth) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   async getAllTools(): Promise<Array<{ serverId: string; tools: unknown[] }>> {
     const results = [];
     
     for (const [serverId, server] of this.servers) {
-      if (server.isConnected && server.client) {
+      if (server.client) {
         try {
           const tools = await this.listTools(serverId);
           results.push({ serverId, tools });
@@ -176,4 +304,186 @@ export class ServerSideMCPManager {
 
     return results;
   }
+
+  // The client of a server that can take requests, or an error saying why it cannot
+  private requireClient(serverId: string): Client {
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new Error(`MCP server not found: ${serverId}`);
+    }
+    if (!server.client) {
+      throw new Error(`MCP server ${server.name} is ${server.status}${server.lastError ? `: ${server.lastError}` : ''}`);
+    }
+    return server.client;
+  }
+
+  private async connect(serverProcess: MCPServerProcess): Promise<void> {
+    this.setStatus(serverProcess, 'starting');
+    serverProcess.stderrTail = '';
+
+    // Create the transport first
+    const transport = createTransport(serverProcess.config);
+    serverProcess.transport = transport;
+    if (transport instanceof StdioClientTransport) {
+      transport.stderr?.on('data', (chunk: Buffer) => {
+        process.stderr.write(chunk);
+        serverProcess.stderrTail = (serverProcess.stderrTail + chunk.toString()).slice(-STDERR_TAIL_CHARS);
+      });
+    }
+
+    // Create client with proper capabilities
+    const client = new Client({
+      name: 'mcp-nextjs-server',
+      version: '1.0.0'
+    }, {
+      capabilities: {
+        sampling: {},
+        tools: {},
+        resources: {}
+      }
+    });
+    client.onclose = () => this.handleDisconnect(serverProcess, client);
+    client.onerror = (error) => {
+      serverProcess.lastError = error.message;
+    };
+
+    // Connect client to transport
+    await client.connect(transport);
+    serverProcess.client = client;
+    serverProcess.pid = transport instanceof StdioClientTransport ? transport.pid ?? undefined : undefined;
+    serverProcess.failedPings = 0;
+    this.setStatus(serverProcess, 'ready');
+  }
+
+  // Reacts only to the live client of a registered server going away; failed attempts are handled by their caller
+  private handleDisconnect(serverProcess: MCPServerProcess, client: Client, reason?: string): void {
+    if (this.servers.get(serverProcess.id) !== serverProcess || serverProcess.client !== client) return;
+
+    serverProcess.client = null;
+    serverProcess.pid = undefined;
+    serverProcess.lastError = reason || describeCrash(serverProcess);
+    console.warn(`⚠️ MCP server ${serverProcess.name} went away: ${serverProcess.lastError}`);
+    this.scheduleRestart(serverProcess);
+  }
+
+  private scheduleRestart(serverProcess: MCPServerProcess): void {
+    const now = Date.now();
+    serverProcess.crashTimes = [...serverProcess.crashTimes.filter(time => now - time < CRASH_LOOP_WINDOW_MS), now];
+
+    if (serverProcess.crashTimes.length > CRASH_LOOP_LIMIT) {
+      serverProcess.nextRestartAt = undefined;
+      serverProcess.lastError = `Crashed ${serverProcess.crashTimes.length} times in ${CRASH_LOOP_WINDOW_MS / 60000} minutes, not restarting. Last error: ${serverProcess.lastError}`;
+      console.error(`❌ ${serverProcess.lastError}`);
+      this.setStatus(serverProcess, 'crashed');
+      return;
+    }
+
+    const delay = Math.min(RESTART_BASE_DELAY_MS * 2 ** (serverProcess.crashTimes.length - 1), RESTART_MAX_DELAY_MS);
+    serverProcess.nextRestartAt = now + delay;
+    this.setStatus(serverProcess, 'crashed');
+
+    serverProcess.restartTimer = setTimeout(async () => {
+      serverProcess.restartTimer = null;
+      serverProcess.nextRestartAt = undefined;
+      if (this.servers.get(serverProcess.id) !== serverProcess) return;
+
+      serverProcess.restarts++;
+      try {
+        await this.connect(serverProcess);
+        // Removed while the attempt was in flight
+        if (this.servers.get(serverProcess.id) !== serverProcess) {
+          await serverProcess.client?.close();
+          return;
+        }
+        console.log(`🔄 Restarted MCP server: ${serverProcess.name}`);
+      } catch (error) {
+        serverProcess.lastError = serverProcess.stderrTail.trim() ? describeCrash(serverProcess) : describeError(error);
+        console.warn(`⚠️ Restart of MCP server ${serverProcess.name} failed:`, error);
+        this.scheduleRestart(serverProcess);
+      }
+    }, delay);
+  }
+
+  private ensureHealthChecks(): void {
+    if (this.healthTimer) return;
+    this.healthTimer = setInterval(() => this.checkHealth(), HEALTH_CHECK_INTERVAL_MS);
+    // Health checks alone should not keep the process alive
+    this.healthTimer.unref?.();
+  }
+
+  private async checkHealth(): Promise<void> {
+    if (this.servers.size === 0 && this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+      return;
+    }
+    await Promise.all(Array.from(this.servers.values()).map(server => this.pingServer(server)));
+  }
+
+  private async pingServer(serverProcess: MCPServerProcess): Promise<void> {
+    const client = serverProcess.client;
+    if (!client) return;
+
+    const started = Date.now();
+    try {
+      await client.ping({ timeout: PING_TIMEOUT_MS });
+    } catch (error) {
+      // A server that does not implement ping still answered, so it is alive
+      if (!(error instanceof McpError && error.code === ErrorCode.MethodNotFound)) {
+        if (serverProcess.client !== client) return;
+        serverProcess.failedPings++;
+        serverProcess.lastError = `Ping failed: ${describeError(error)}`;
+        if (serverProcess.failedPings >= MAX_FAILED_PINGS) {
+          // Hung rather than gone: drop the connection and let the restart logic take over
+          this.handleDisconnect(serverProcess, client, `No answer to ${MAX_FAILED_PINGS} pings in a row`);
+          client.close().catch(() => {});
+        } else {
+          this.setStatus(serverProcess, 'degraded');
+        }
+        return;
+      }
+    }
+
+    if (serverProcess.client !== client) return;
+    serverProcess.pingMs = Date.now() - started;
+    serverProcess.failedPings = 0;
+    this.setStatus(serverProcess, 'ready');
+  }
+
+  // Status changes of registered servers go out to subscribers; removed servers only report 'stopped'
+  private setStatus(serverProcess: MCPServerProcess, status: MCPServerStatus): void {
+    if (this.servers.get(serverProcess.id) !== serverProcess) return;
+    const changed = serverProcess.status !== status;
+    serverProcess.status = status;
+    // Every crash is reported, since the restart count and next attempt change with each
+    if (changed || status === 'crashed') {
+      this.emit(serverProcess);
+    }
+  }
+
+  private emit(serverProcess: MCPServerProcess): void {
+    const health = this.toHealth(serverProcess);
+    this.listeners.forEach(listener => {
+      try {
+        listener(health);
+      } catch (error) {
+        console.error('MCP status listener failed:', error);
+      }
+    });
+  }
+
+  private toHealth(serverProcess: MCPServerProcess): MCPServerHealth {
+    return {
+      id: serverProcess.id,
+      name: serverProcess.name,
+      transport: serverProcess.transportType,
+      status: serverProcess.status,
+      pid: serverProcess.pid,
+      restarts: serverProcess.restarts,
+      pingMs: serverProcess.pingMs,
+      lastError: serverProcess.lastError,
+      nextRestartAt: serverProcess.nextRestartAt ? new Date(serverProcess.nextRestartAt).toISOString() : undefined,
+      updatedAt: new Date().toISOString()
+    };
+  }
 }
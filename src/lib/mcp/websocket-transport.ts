@@ -0,0 +1,109 @@
+// This file will run on the server side only
+import WebSocket from 'ws';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+
+const SUBPROTOCOL = 'mcp';
+const DEFAULT_PING_INTERVAL_MS = 30000;
+
+export interface WebSocketTransportOptions {
+  headers?: Record<string, string>;
+  pingIntervalMs?: number;
+}
+
+// MCP over a WebSocket from Node. Unlike the SDK's browser-style transport it can send headers on the
+// upgrade request (for auth), and it pings the server so a silently dropped connection gets closed.
+export class NodeWebSocketTransport implements Transport {
+  private url: URL;
+  private headers?: Record<string, string>;
+  private pingIntervalMs: number;
+  private socket: WebSocket | null = null;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private awaitingPong = false;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(url: URL, options: WebSocketTransportOptions = {}) {
+    this.url = url;
+    this.headers = options.headers;
+    this.pingIntervalMs = options.pingIntervalMs ?? DEFAULT_PING_INTERVAL_MS;
+  }
+
+  start(): Promise<void> {
+    if (this.socket) {
+      throw new Error('WebSocket transport already started');
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url, SUBPROTOCOL, { headers: this.headers });
+      this.socket = socket;
+
+      socket.once('open', () => {
+        this.startKeepalive();
+        resolve();
+      });
+      // Before the socket opens this fails start(); afterwards the reject is a no-op
+      socket.on('error', (error) => {
+        reject(error);
+        this.onerror?.(error);
+      });
+      socket.on('pong', () => {
+        this.awaitingPong = false;
+      });
+      socket.on('message', (data) => {
+        let message: JSONRPCMessage;
+        try {
+          message = JSONRPCMessageSchema.parse(JSON.parse(data.toString()));
+        } catch (error) {
+          this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+          return;
+        }
+        this.onmessage?.(message);
+      });
+      socket.on('close', () => {
+        this.stopKeepalive();
+        this.socket = null;
+        this.onclose?.();
+      });
+    });
+  }
+
+  send(message: JSONRPCMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+        reject(new Error('Not connected'));
+        return;
+      }
+      this.socket.send(JSON.stringify(message), (error) => error ? reject(error) : resolve());
+    });
+  }
+
+  async close(): Promise<void> {
+    this.stopKeepalive();
+    this.socket?.close();
+  }
+
+  // A server that has not answered the previous ping by the time of the next one is treated as gone
+  private startKeepalive(): void {
+    this.awaitingPong = false;
+    this.pingTimer = setInterval(() => {
+      if (!this.socket) return;
+      if (this.awaitingPong) {
+        console.warn(`⚠️ No pong from ${this.url.host}, closing the WebSocket`);
+        this.socket.terminate();
+        return;
+      }
+      this.awaitingPong = true;
+      this.socket.ping();
+    }, this.pingIntervalMs);
+  }
+
+  private stopKeepalive(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+}
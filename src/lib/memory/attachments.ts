@@ -0,0 +1,168 @@
+import { ContentPart, MCPResourceContents, Message } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+
+export type AttachmentPart = Extract<ContentPart, { type: 'image' | 'file' }>;
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+const TEXT_TYPES = ['application/json', 'application/xml', 'application/javascript', 'application/typescript', 'application/x-yaml'];
+// Browsers often report an empty type for source files, so fall back to the extension
+const TEXT_EXTENSIONS = /\.(txt|md|csv|tsv|json|xml|ya?ml|toml|ini|log|js|jsx|ts|tsx|py|rb|go|rs|java|kt|c|h|cpp|hpp|cs|php|sh|sql|html|css)$/i;
+
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+// Providers downscale anything larger than this on their side anyway
+const MAX_IMAGE_DIMENSION = 1568;
+
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || TEXT_TYPES.includes(mimeType);
+}
+
+// Attachment blobs live in IndexedDB so sessions in localStorage only carry small references
+export class AttachmentStore {
+  private static instance: AttachmentStore;
+  private readonly DB_NAME = 'mcp-chat-attachments';
+  private readonly STORE_NAME = 'attachments';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): AttachmentStore {
+    if (!AttachmentStore.instance) {
+      AttachmentStore.instance = new AttachmentStore();
+    }
+    return AttachmentStore.instance;
+  }
+
+  async save(blob: Blob): Promise<string> {
+    const id = uuidv4();
+    await this.request('readwrite', store => store.put(blob, id));
+    return id;
+  }
+
+  async get(id: string): Promise<Blob | undefined> {
+    return await this.request<Blob | undefined>('readonly', store => store.get(id));
+  }
+
+  async deleteMany(ids: string[]): Promise<void> {
+    await Promise.all(ids.map(id => this.request('readwrite', store => store.delete(id))));
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(this.STORE_NAME, mode).objectStore(this.STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// Validates a pasted or dropped file, shrinks large images and stores it, returning the message part
+export async function createAttachmentPart(file: File): Promise<AttachmentPart> {
+  const mimeType = file.type || (TEXT_EXTENSIONS.test(file.name) ? 'text/plain' : '');
+
+  if (IMAGE_TYPES.includes(mimeType)) {
+    if (file.size > MAX_IMAGE_BYTES) {
+      throw new Error(`${file.name} is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+    }
+    const blob = await downscaleImage(file);
+    const attachmentId = await AttachmentStore.getInstance().save(blob);
+    return { type: 'image', attachmentId, mimeType: blob.type || mimeType, name: file.name, size: blob.size };
+  }
+
+  if (mimeType === 'application/pdf' || isTextMimeType(mimeType) || TEXT_EXTENSIONS.test(file.name)) {
+    if (file.size > MAX_FILE_BYTES) {
+      throw new Error(`${file.name} is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB`);
+    }
+    const attachmentId = await AttachmentStore.getInstance().save(file);
+    return { type: 'file', attachmentId, mimeType: mimeType || 'text/plain', name: file.name, size: file.size };
+  }
+
+  throw new Error(`${file.name}: only images, PDFs and text files can be attached`);
+}
+
+// Attaches what an MCP server returned for a resource, one attachment per content item. Text is attached
+// as a text file whatever its declared type; binary data goes through the same checks as an uploaded file.
+export async function createResourceAttachmentParts(name: string, contents: MCPResourceContents[]): Promise<AttachmentPart[]> {
+  return await Promise.all(contents.map(async (content, index) => {
+    const fileName = contents.length > 1 ? `${name} (${index + 1})` : name;
+    if (content.text !== undefined) {
+      const mimeType = content.mimeType && isTextMimeType(content.mimeType) ? content.mimeType : 'text/plain';
+      return await createAttachmentPart(new File([content.text], fileName, { type: mimeType }));
+    }
+    if (content.blob !== undefined) {
+      const bytes = Uint8Array.from(atob(content.blob), char => char.charCodeAt(0));
+      return await createAttachmentPart(new File([bytes], fileName, { type: content.mimeType || '' }));
+    }
+    throw new Error(`${content.uri} has no content`);
+  }));
+}
+
+// Loads attachment payloads for the messages about to be sent to a provider
+export async function resolveAttachments(messages: Message[]): Promise<Message[]> {
+  const store = AttachmentStore.getInstance();
+
+  return await Promise.all(messages.map(async message => {
+    if (!message.parts?.some(part => part.type !== 'text')) return message;
+
+    const parts = await Promise.all(message.parts.map(async part => {
+      if (part.type === 'text') return part;
+      const blob = await store.get(part.attachmentId);
+      if (!blob) {
+        throw new Error(`Attachment ${part.name} is no longer available in this browser`);
+      }
+      return { ...part, data: await blobToBase64(blob) };
+    }));
+    return { ...message, parts };
+  }));
+}
+
+export function getAttachmentIds(messages: Message[]): string[] {
+  return messages.flatMap(message =>
+    (message.parts || []).flatMap(part => part.type === 'text' ? [] : [part.attachmentId])
+  );
+}
+
+// Re-encodes images whose longest side exceeds what providers use; animated GIFs are kept as-is
+async function downscaleImage(file: File): Promise<Blob> {
+  if (file.type === 'image/gif') return file;
+
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  if (scale === 1 && file.size < 1024 * 1024) {
+    bitmap.close();
+    return file;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', 0.85));
+  // Browsers without WebP encoding fall back to PNG, which may not be smaller
+  return blob && blob.type === 'image/webp' && blob.size < file.size ? blob : file;
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+  return dataUrl.slice(dataUrl.indexOf(',') + 1);
+}
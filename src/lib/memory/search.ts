@@ -0,0 +1,62 @@
+import { MessageSearchResult } from '@/types';
+
+type Range = [number, number];
+
+const SNIPPET_LENGTH = 160;
+// Text kept before the first match so it is read in context
+const SNIPPET_LEAD = 40;
+
+// Lowercased words of a search query
+export function queryTerms(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+}
+
+// Every occurrence of the terms in text, case-insensitively, as sorted non-overlapping [start, end) ranges
+export function findTermRanges(text: string, terms: string[]): Range[] {
+  const lower = text.toLowerCase();
+  const ranges: Range[] = [];
+  terms.forEach(term => {
+    for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  });
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: Range[] = [];
+  ranges.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+  return merged;
+}
+
+// A short excerpt around the first match (or the start of the text), with the matches inside it
+export function buildSnippet(text: string, ranges: Range[]): Pick<MessageSearchResult, 'snippet' | 'highlights'> {
+  let start = ranges.length > 0 ? Math.max(0, ranges[0][0] - SNIPPET_LEAD) : 0;
+  // Start on a word boundary rather than mid-word
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < ranges[0][0]) start = space + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+
+  return {
+    snippet: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+    highlights: ranges
+      .filter(([rangeStart, rangeEnd]) => rangeStart >= start && rangeEnd <= end)
+      .map(([rangeStart, rangeEnd]): Range => [rangeStart - start + prefix.length, rangeEnd - start + prefix.length])
+  };
+}
+
+// Ranks a keyword match: every occurrence counts, the exact phrase counts extra. Zero when a term is missing.
+export function keywordScore(text: string, query: string, terms: string[]): number {
+  const lower = text.toLowerCase();
+  if (terms.some(term => !lower.includes(term))) return 0;
+  const occurrences = terms.reduce((total, term) => total + lower.split(term).length - 1, 0);
+  return occurrences + (terms.length > 1 && lower.includes(query.toLowerCase().trim()) ? 5 : 0);
+}
@@ -1,6 +1,27 @@
-import { ChatSession, Message } from '@/types';
+import { ChatSession, ContextWindowInfo, EmbeddingConfig, MCPTool, Message, MessageSearchResult, SamplingParams, TokenUsage, UsageTotals } from '@/types';
+import { calculateCost, getContextWindow } from '@/lib/llm/catalog';
+import { estimateMessageTokens, estimateTokens, estimateToolTokens } from '@/lib/llm/tokens';
+import { AttachmentStore, getAttachmentIds } from './attachments';
+import { buildSnippet, findTermRanges, keywordScore, queryTerms } from './search';
+import { Embedder, indexableText, VectorIndex } from './vector-index';
 import { v4 as uuidv4 } from 'uuid';
 
+export interface ContextBudget {
+  provider?: string;
+  model?: string;
+  systemPrompt?: string;
+  tools?: MCPTool[];
+  // Room kept free for the model's reply
+  maxTokens?: number;
+  // Send earlier reasoning back inside <think> tags instead of dropping it
+  includeReasoning?: boolean;
+}
+
+const DEFAULT_CONTEXT_WINDOW = 4096;
+const MAX_SEARCH_RESULTS = 50;
+const MAX_SEMANTIC_RESULTS = 20;
+const DEFAULT_RESPONSE_TOKENS = 2000;
+
 export class MemoryManager {
   private static instance: MemoryManager;
   private readonly STORAGE_KEY = 'mcp-chat-sessions';
@@ -65,6 +86,7 @@ export class MemoryManager {
         title: string;
         createdAt: string;
         updatedAt: string;
+        sampling?: SamplingParams;
         messages: Array<{
           id: string;
           role: string;
@@ -72,6 +94,7 @@ export class MemoryManager {
           timestamp: string;
           provider?: string;
           model?: string;
+          usage?: TokenUsage;
         }>;
       }>;
       // Convert date strings back to Date objects
@@ -91,12 +114,30 @@ export class MemoryManager {
   }
 
   deleteSession(sessionId: string): void {
-    const sessions = this.getAllSessions().filter(s => s.id !== sessionId);
+    const allSessions = this.getAllSessions();
+    const sessions = allSessions.filter(s => s.id !== sessionId);
     this.saveSessions(sessions);
+    this.deleteAttachments(allSessions.filter(s => s.id === sessionId));
+    VectorIndex.getInstance().deleteSessions([sessionId]).catch(error => {
+      console.warn('⚠️ Failed to delete search index entries:', error);
+    });
   }
 
   clearAllSessions(): void {
+    this.deleteAttachments(this.getAllSessions());
     localStorage.removeItem(this.STORAGE_KEY);
+    VectorIndex.getInstance().clear().catch(error => {
+      console.warn('⚠️ Failed to clear search index:', error);
+    });
+  }
+
+  // Attachment blobs are stored outside localStorage and have to be removed alongside their sessions
+  private deleteAttachments(sessions: ChatSession[]): void {
+    const ids = getAttachmentIds(sessions.flatMap(session => session.messages));
+    if (ids.length === 0) return;
+    AttachmentStore.getInstance().deleteMany(ids).catch(error => {
+      console.warn('⚠️ Failed to delete attachments:', error);
+    });
   }
 
   // Message Management
@@ -149,6 +190,33 @@ export class MemoryManager {
     this.saveSession(session);
   }
 
+  // Replaces the session's sampling overrides; an empty set goes back to the configured values
+  setSessionSampling(sessionId: string, sampling: SamplingParams): void {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    session.sampling = Object.keys(sampling).length > 0 ? sampling : undefined;
+    this.saveSession(session);
+  }
+
+  // Drops the oldest messages, keeping the most recent `keep`; returns how many were removed
+  trimMessages(sessionId: string, keep: number): number {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const removed = session.messages.slice(0, Math.max(0, session.messages.length - keep));
+    if (removed.length === 0) return 0;
+
+    session.messages = session.messages.slice(removed.length);
+    this.saveSession(session);
+    this.deleteAttachments([{ ...session, messages: removed }]);
+    return removed.length;
+  }
+
   getMessages(sessionId: string, limit?: number): Message[] {
     const session = this.getSession(sessionId);
     if (!session) {
@@ -180,6 +248,62 @@ export class MemoryManager {
     });
   }
 
+  // Messages containing every word of the query, ranked by how often they occur; titles match too
+  searchMessages(query: string): MessageSearchResult[] {
+    const terms = queryTerms(query);
+    if (terms.length === 0) return [];
+
+    const results: MessageSearchResult[] = [];
+    this.getAllSessions().forEach(session => {
+      const titleScore = keywordScore(session.title, query, terms);
+      if (titleScore > 0) {
+        results.push({
+          sessionId: session.id,
+          sessionTitle: session.title,
+          timestamp: session.updatedAt,
+          ...buildSnippet(session.title, findTermRanges(session.title, terms)),
+          // A matching title describes the whole conversation, so it ranks above single messages
+          score: titleScore + 10
+        });
+      }
+
+      session.messages.forEach(message => {
+        const text = indexableText(message);
+        const score = text ? keywordScore(text, query, terms) : 0;
+        if (score === 0) return;
+        results.push(toSearchResult(session, message, text, terms, score));
+      });
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score || b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, MAX_SEARCH_RESULTS);
+  }
+
+  // Messages closest in meaning to the query. Brings the vector index up to date first, which embeds
+  // every message on the first search and only new ones after that.
+  async searchMessagesSemantic(
+    query: string,
+    embedding: EmbeddingConfig,
+    embed: Embedder,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<MessageSearchResult[]> {
+    const sessions = this.getAllSessions();
+    const model = `${embedding.provider}/${embedding.model}`;
+    const index = VectorIndex.getInstance();
+    await index.sync(sessions, model, embed, onProgress);
+
+    const [queryVector] = await embed([query]);
+    const matches = await index.search(queryVector, model, MAX_SEMANTIC_RESULTS);
+    const terms = queryTerms(query);
+
+    return matches.flatMap(match => {
+      const session = sessions.find(s => s.id === match.sessionId);
+      const message = session?.messages.find(m => m.id === match.messageId);
+      return session && message ? [toSearchResult(session, message, indexableText(message), terms, match.score)] : [];
+    });
+  }
+
   getSessionsByDateRange(startDate: Date, endDate: Date): ChatSession[] {
     const sessions = this.getAllSessions();
     return sessions.filter(session => 
@@ -194,9 +318,36 @@ export class MemoryManager {
       total + session.messages.length, 0
     );
 
+    // Token spend, keyed by provider, provider/model and local calendar day
+    const usage = {
+      total: emptyUsageTotals(),
+      byProvider: {} as Record<string, UsageTotals>,
+      byModel: {} as Record<string, UsageTotals>,
+      byDay: {} as Record<string, UsageTotals>
+    };
+
+    sessions.forEach(session => {
+      session.messages.forEach(message => {
+        if (!message.usage) return;
+
+        const provider = message.provider || 'unknown';
+        const model = `${provider}/${message.model || 'unknown'}`;
+        const day = toDayKey(message.timestamp);
+        const cost = calculateCost(message.provider, message.model, message.usage);
+
+        [
+          usage.total,
+          usage.byProvider[provider] ??= emptyUsageTotals(),
+          usage.byModel[model] ??= emptyUsageTotals(),
+          usage.byDay[day] ??= emptyUsageTotals()
+        ].forEach(totals => addToTotals(totals, message.usage!, cost));
+      });
+    });
+
     return {
       totalSessions: sessions.length,
       totalMessages,
+      usage,
       oldestSession: sessions.length > 0 ? 
         Math.min(...sessions.map(s => s.createdAt.getTime())) : null,
       newestSession: sessions.length > 0 ? 
@@ -224,6 +375,7 @@ export class MemoryManager {
         title: string;
         createdAt: string;
         updatedAt: string;
+        sampling?: SamplingParams;
         messages: Array<{
           id: string;
           role: string;
@@ -231,6 +383,7 @@ export class MemoryManager {
           timestamp: string;
           provider?: string;
           model?: string;
+          usage?: TokenUsage;
         }>;
       }>;
 
@@ -252,33 +405,48 @@ export class MemoryManager {
   }
 
   // Context Management for LLM
-  getContextMessages(sessionId: string, maxTokens: number = 4000): Message[] {
+  // Picks the most recent messages that fit the model's context window, after reserving room
+  // for the system prompt, tool schemas and the response itself.
+  getContextMessages(sessionId: string, budget: ContextBudget = {}): { messages: Message[]; info: ContextWindowInfo } {
+    const { provider, model, systemPrompt = '', tools = [], maxTokens = DEFAULT_RESPONSE_TOKENS, includeReasoning = false } = budget;
+    const contextWindow = provider && model ? getContextWindow(provider, model) : DEFAULT_CONTEXT_WINDOW;
     const session = this.getSession(sessionId);
     if (!session) {
-      return [];
+      return {
+        messages: [],
+        info: { contextWindow, estimatedTokens: 0, includedMessages: 0, truncatedMessages: 0 }
+      };
     }
 
-    // Rough estimation: 1 token ≈ 4 characters
-    const avgCharsPerToken = 4;
-    const maxChars = maxTokens * avgCharsPerToken;
+    const reservedTokens = maxTokens + estimateTokens(systemPrompt, provider) + estimateToolTokens(tools, provider);
+    const availableTokens = contextWindow - reservedTokens;
     
-    let totalChars = 0;
+    let totalTokens = 0;
     const contextMessages: Message[] = [];
 
     // Start from the most recent messages and work backwards
     for (let i = session.messages.length - 1; i >= 0; i--) {
-      const message = session.messages[i];
-      const messageChars = message.content.length;
+      const message = withContextReasoning(session.messages[i], includeReasoning);
+      const messageTokens = estimateMessageTokens(message, provider);
       
-      if (totalChars + messageChars > maxChars && contextMessages.length > 0) {
+      // Always send the latest message, even if it alone overflows the window
+      if (totalTokens + messageTokens > availableTokens && contextMessages.length > 0) {
         break;
       }
       
       contextMessages.unshift(message);
-      totalChars += messageChars;
+      totalTokens += messageTokens;
     }
 
-    return contextMessages;
+    return {
+      messages: contextMessages,
+      info: {
+        contextWindow,
+        estimatedTokens: totalTokens + reservedTokens - maxTokens,
+        includedMessages: contextMessages.length,
+        truncatedMessages: session.messages.length - contextMessages.length
+      }
+    };
   }
 
   private saveSessions(sessions: ChatSession[]): void {
@@ -289,3 +457,52 @@ export class MemoryManager {
     }
   }
 }
+
+// Reasoning is only for display unless asked for; signatures only matter within a single tool-calling loop
+function withContextReasoning(message: Message, includeReasoning: boolean): Message {
+  if (!message.reasoning) return message;
+  const stripped = { ...message, reasoning: undefined, reasoningSignature: undefined };
+  return includeReasoning ? { ...stripped, content: `<think>\n${message.reasoning}\n</think>\n\n${message.content}` } : stripped;
+}
+
+function toSearchResult(session: ChatSession, message: Message, text: string, terms: string[], score: number): MessageSearchResult {
+  return {
+    sessionId: session.id,
+    sessionTitle: session.title,
+    messageId: message.id,
+    role: message.role,
+    timestamp: message.timestamp,
+    ...buildSnippet(text, findTermRanges(text, terms)),
+    score
+  };
+}
+
+function emptyUsageTotals(): UsageTotals {
+  return {
+    messages: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    cost: 0,
+    unpricedMessages: 0
+  };
+}
+
+function addToTotals(totals: UsageTotals, usage: TokenUsage, cost: number | undefined) {
+  totals.messages++;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.cacheReadTokens += usage.cacheReadTokens || 0;
+  totals.cacheWriteTokens += usage.cacheWriteTokens || 0;
+  if (cost === undefined) {
+    totals.unpricedMessages++;
+  } else {
+    totals.cost += cost;
+  }
+}
+
+function toDayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,173 @@
+import { ChatSession, Message } from '@/types';
+
+// Turns texts into vectors, one per text in the same order
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+
+// One embedded message. Vectors from different models cannot be compared, so each records its model.
+interface VectorEntry {
+  messageId: string;
+  sessionId: string;
+  model: string;
+  // Hash of the embedded text, so an edited message is embedded again
+  hash: string;
+  // Normalised to unit length, so cosine similarity is a dot product
+  vector: Float32Array;
+}
+
+export interface VectorMatch {
+  messageId: string;
+  sessionId: string;
+  score: number;
+}
+
+const BATCH_SIZE = 50;
+// Embedding models read a few thousand tokens at most; the start of a long message says what it is about
+const MAX_TEXT_CHARS = 6000;
+
+// Only what people wrote and read is searchable; tool traffic has no content of its own
+export function indexableText(message: Message): string {
+  if (message.role !== 'user' && message.role !== 'assistant') return '';
+  return message.content.trim().slice(0, MAX_TEXT_CHARS);
+}
+
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function normalize(values: number[]): Float32Array {
+  const length = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return Float32Array.from(values, value => value / length);
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+// Message embeddings for semantic search, kept in IndexedDB next to the attachments since vectors
+// are far too large for localStorage. Updated incrementally: only new or edited messages are embedded.
+export class VectorIndex {
+  private static instance: VectorIndex;
+  private readonly DB_NAME = 'mcp-chat-embeddings';
+  private readonly STORE_NAME = 'vectors';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  // Overlapping syncs would embed the same messages twice, so they run one after another
+  private syncQueue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {}
+
+  static getInstance(): VectorIndex {
+    if (!VectorIndex.instance) {
+      VectorIndex.instance = new VectorIndex();
+    }
+    return VectorIndex.instance;
+  }
+
+  // Brings the index in line with the sessions: embeds what is missing or changed and drops the rest
+  sync(sessions: ChatSession[], model: string, embed: Embedder, onProgress?: (done: number, total: number) => void): Promise<void> {
+    const run = this.syncQueue.then(() => this.runSync(sessions, model, embed, onProgress));
+    this.syncQueue = run.catch(() => {});
+    return run;
+  }
+
+  async search(query: number[], model: string, limit: number): Promise<VectorMatch[]> {
+    const queryVector = normalize(query);
+    const entries = await this.getAll();
+    return entries
+      .filter(entry => entry.model === model)
+      .map(entry => ({ messageId: entry.messageId, sessionId: entry.sessionId, score: dot(queryVector, entry.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  async deleteSessions(sessionIds: string[]): Promise<void> {
+    const entries = await this.getAll();
+    const ids = entries.filter(entry => sessionIds.includes(entry.sessionId)).map(entry => entry.messageId);
+    await this.transaction(store => ids.forEach(id => store.delete(id)));
+  }
+
+  async clear(): Promise<void> {
+    await this.transaction(store => store.clear());
+  }
+
+  private async runSync(sessions: ChatSession[], model: string, embed: Embedder, onProgress?: (done: number, total: number) => void): Promise<void> {
+    const wanted = new Map<string, { sessionId: string; text: string; hash: string }>();
+    sessions.forEach(session => session.messages.forEach(message => {
+      const text = indexableText(message);
+      if (text) {
+        wanted.set(message.id, { sessionId: session.id, text, hash: hashText(text) });
+      }
+    }));
+
+    const current = new Set<string>();
+    const stale: string[] = [];
+    (await this.getAll()).forEach(entry => {
+      const target = wanted.get(entry.messageId);
+      if (target && entry.model === model && entry.hash === target.hash) {
+        current.add(entry.messageId);
+      } else {
+        stale.push(entry.messageId);
+      }
+    });
+    if (stale.length > 0) {
+      await this.transaction(store => stale.forEach(id => store.delete(id)));
+    }
+
+    const pending = [...wanted.entries()].filter(([messageId]) => !current.has(messageId));
+    for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+      onProgress?.(i, pending.length);
+      const batch = pending.slice(i, i + BATCH_SIZE);
+      const vectors = await embed(batch.map(([, item]) => item.text));
+      if (vectors.length !== batch.length) {
+        throw new Error(`Expected ${batch.length} embeddings, got ${vectors.length}`);
+      }
+      await this.transaction(store => batch.forEach(([messageId, item], index) => {
+        const entry: VectorEntry = { messageId, sessionId: item.sessionId, model, hash: item.hash, vector: normalize(vectors[index]) };
+        store.put(entry);
+      }));
+    }
+    if (pending.length > 0) {
+      onProgress?.(pending.length, pending.length);
+    }
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.STORE_NAME, { keyPath: 'messageId' });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getAll(): Promise<VectorEntry[]> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(this.STORE_NAME, 'readonly').objectStore(this.STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result as VectorEntry[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Runs several writes in one transaction, resolving once they are all committed
+  private async transaction(run: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, 'readwrite');
+      run(transaction.objectStore(this.STORE_NAME));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
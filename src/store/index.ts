@@ -1,10 +1,46 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { ChatSession, Message, LLMConfig, MCPServerConfig, AppConfig } from '@/types';
-import { LLMManager } from '@/lib/llm/providers';
+import { v4 as uuidv4 } from 'uuid';
+import { ChatError, ChatSession, ContentPart, Message, LLMConfig, MCPServerConfig, MCPServerHealth, MCPTool, MCPResource, MCPResourceTemplate, MCPPrompt, AppConfig, ContextWindowInfo, EmbeddingConfig, MessageSearchResult, ModelReply, ResponseFormat, SamplingParams, SearchMode, StructuredOutput, TokenUsage, ToolInvocation } from '@/types';
+import { LLMManager } from '@/lib/llm/manager';
+import { addUsage, supportsPdf, supportsVision } from '@/lib/llm/catalog';
+import { createLLMError, describeError, LLMError } from '@/lib/llm/errors';
+import { fetchCustomProviders, RemoteLLMProvider } from '@/lib/llm/remote';
+import { pickSampling } from '@/lib/llm/base';
+import { getProviderDescriptor } from '@/lib/llm/registry';
 import { MCPClientManager } from '@/lib/mcp/browser-client';
 import { BridgeMCPClient } from '@/lib/mcp/bridge-client';
+import { toPromptTurns } from '@/lib/mcp/prompts';
 import { MemoryManager } from '@/lib/memory/storage';
+import { AttachmentPart, createResourceAttachmentParts, resolveAttachments } from '@/lib/memory/attachments';
+
+// Everything needed to send a failed message again
+interface FailedRequest {
+  sessionId: string;
+  content: string;
+  useTools: boolean;
+  attachments: ContentPart[];
+  responseFormat?: ResponseFormat;
+  // The user message stored by the failed attempt, replaced when retrying
+  userMessageId?: string;
+}
+
+// One user message sent to several models at once; the replies stay here until one is picked
+interface ModelComparison {
+  sessionId: string;
+  userMessageId: string;
+  replies: ModelReply[];
+}
+
+export const MAX_COMPARED_MODELS = 4;
+
+// The embedding model chosen in settings, or else the chat provider's default one
+export function resolveEmbeddingConfig(config: AppConfig | null): EmbeddingConfig | undefined {
+  if (config?.embedding) return config.embedding;
+  const llm = config?.llm;
+  const model = llm ? getProviderDescriptor(llm.provider)?.embeddingModels?.[0] : undefined;
+  return llm && model ? { provider: llm.provider, model, baseUrl: llm.baseUrl } : undefined;
+}
 
 interface AppState {
   // Configuration
@@ -15,6 +51,18 @@ interface AppState {
   currentSession: ChatSession | null;
   isLoading: boolean;
   error: string | null;
+  // Typed details of the last failed chat request, for the remediation banner
+  chatError: ChatError | null;
+  failedRequest: FailedRequest | null;
+  streamingMessageId: string | null;
+  abortController: AbortController | null;
+  // Context window usage of the latest request in the current session
+  contextInfo: ContextWindowInfo | null;
+  comparison: ModelComparison | null;
+  // Message a history search result jumped to, highlighted until the chat moves on
+  focusedMessageId: string | null;
+  // Messages embedded so far while the semantic index catches up
+  indexingProgress: { done: number; total: number } | null;
   
   // LLM State
   llmManager: LLMManager;
@@ -25,27 +73,53 @@ interface AppState {
   bridgeClient: BridgeMCPClient;
   mcpServers: MCPServerConfig[];
   availableTools: string[];
+  mcpTools: MCPTool[];
+  // Why tool discovery failed on one or more connected servers, shown next to the tool count
+  mcpToolsError: string | null;
   bridgeConnected: boolean;
+  // MCP resources attached from the sidebar, waiting for the chat input to pick them up
+  queuedAttachments: AttachmentPart[];
+  // Live server status pushed by the server-side supervisor, by server ID
+  mcpServerHealth: Record<string, MCPServerHealth>;
+  // False while the status feed is down, when mcpServerHealth may be out of date
+  mcpServerHealthLive: boolean;
   
   // Actions
   setConfig: (config: AppConfig) => void;
-  updateLLMConfig: (llmConfig: LLMConfig) => Promise<void>;
+  updateLLMConfig: (llmConfig: LLMConfig, fallbacks?: LLMConfig[]) => Promise<void>;
+  updateEmbeddingConfig: (embedding?: EmbeddingConfig) => void;
   
   // Session Actions
   createNewSession: (title?: string) => void;
   setCurrentSession: (sessionId: string) => void;
   deleteSession: (sessionId: string) => void;
   loadSessions: () => void;
+  updateSessionSampling: (sampling: SamplingParams) => void;
+  searchHistory: (query: string, mode: SearchMode) => Promise<MessageSearchResult[]>;
+  jumpToMessage: (sessionId: string, messageId?: string) => void;
   
   // Message Actions
-  sendMessage: (content: string, useTools?: boolean) => Promise<void>;
+  sendMessage: (content: string, useTools?: boolean, attachments?: ContentPart[], responseFormat?: ResponseFormat) => Promise<void>;
   addMessage: (message: Omit<Message, 'id' | 'timestamp'>) => void;
+  stopGeneration: () => void;
+  retryLastMessage: () => Promise<void>;
+  trimHistory: () => void;
+  compareModels: (content: string, targets: LLMConfig[], attachments?: ContentPart[]) => Promise<void>;
+  pickComparisonWinner: (replyId: string) => void;
+  discardComparison: () => void;
   
   // MCP Actions
   addMCPServer: (config: MCPServerConfig) => Promise<void>;
   removeMCPServer: (serverId: string) => Promise<void>;
   toggleMCPServer: (serverId: string) => Promise<void>;
+  reconnectMCPServers: () => Promise<void>;
   refreshMCPTools: () => Promise<void>;
+  loadMCPResources: (serverId: string) => Promise<{ resources: MCPResource[]; templates: MCPResourceTemplate[] }>;
+  attachMCPResource: (serverId: string, uri: string, name: string) => Promise<void>;
+  takeQueuedAttachments: () => AttachmentPart[];
+  loadMCPPrompts: () => Promise<MCPPrompt[]>;
+  runMCPPrompt: (prompt: MCPPrompt, args: Record<string, string>, useTools?: boolean) => Promise<void>;
+  watchMCPServerHealth: () => () => void;
   checkBridgeConnection: () => Promise<void>;
   
   // UI Actions
@@ -62,11 +136,22 @@ export const useAppStore = create<AppState>()(
       currentSession: null,
       isLoading: false,
       error: null,
+      chatError: null,
+      failedRequest: null,
+      streamingMessageId: null,
+      abortController: null,
+      contextInfo: null,
+      comparison: null,
+      focusedMessageId: null,
+      indexingProgress: null,
       llmManager: new LLMManager(),
       isLLMConfigured: false,
       mcpClientManager: new MCPClientManager(),
       bridgeClient: new BridgeMCPClient(),
       bridgeConnected: false,
+      queuedAttachments: [],
+      mcpServerHealth: {},
+      mcpServerHealthLive: false,
       mcpServers: [
         {
           id: 'demo-server-1',
@@ -75,7 +160,7 @@ export const useAppStore = create<AppState>()(
           command: 'python',
           args: ['/path/to/filesystem-mcp.py'],
           description: 'Local file operations and analysis',
-          isConnected: true,
+          isConnected: false,
           capabilities: ['file_read', 'file_write', 'dir_list']
         },
         {
@@ -88,34 +173,27 @@ export const useAppStore = create<AppState>()(
           capabilities: ['web_scrape', 'api_call', 'http_request']
         }
       ],
-      availableTools: [
-        'file_read', 'file_write', 'file_list', 'dir_create', 'search_files',
-        'web_scrape', 'api_call', 'data_analysis', 'image_process', 'pdf_extract',
-        'json_parse', 'csv_read', 'excel_read', 'sql_query', 'http_request',
-        'text_summarize', 'translate', 'sentiment_analysis', 'keyword_extract', 'regex_match',
-        'math_calculate', 'date_format', 'string_process', 'hash_generate', 'encode_decode',
-        'git_status', 'git_commit', 'git_push', 'git_pull', 'git_branch',
-        'docker_run', 'docker_build', 'process_list', 'system_info', 'disk_usage',
-        'network_ping', 'port_scan', 'dns_lookup', 'ssl_check', 'url_validate',
-        'email_send', 'sms_send', 'slack_post', 'discord_send', 'telegram_send',
-        'calendar_create', 'calendar_list'
-      ],
+      availableTools: [],
+      mcpToolsError: null,
+      mcpTools: [],
       
       // Configuration Actions
       setConfig: (config: AppConfig) => {
         set({ config });
       },
       
-      updateLLMConfig: async (llmConfig: LLMConfig) => {
+      updateLLMConfig: async (llmConfig: LLMConfig, fallbacks?: LLMConfig[]) => {
         const { llmManager } = get();
+        const llmFallbacks = fallbacks ?? get().config?.llmFallbacks ?? [];
         try {
           set({ isLoading: true, error: null });
-          await llmManager.setProvider(llmConfig);
+          await llmManager.setProviders([llmConfig, ...llmFallbacks]);
           set({ 
             isLLMConfigured: true,
             config: { 
               ...get().config!, 
-              llm: llmConfig 
+              llm: llmConfig,
+              llmFallbacks
             }
           });
         } catch (error) {
@@ -127,6 +205,13 @@ export const useAppStore = create<AppState>()(
         }
       },
       
+      // Unset goes back to the chat provider's default embedding model
+      updateEmbeddingConfig: (embedding?: EmbeddingConfig) => {
+        const { config } = get();
+        if (!config) return;
+        set({ config: { ...config, embedding } });
+      },
+      
       // Session Actions
       createNewSession: (title?: string) => {
         const memoryManager = MemoryManager.getInstance();
@@ -135,7 +220,11 @@ export const useAppStore = create<AppState>()(
         
         set({ 
           sessions,
-          currentSession: newSession 
+          currentSession: newSession,
+          focusedMessageId: null,
+          contextInfo: null,
+          chatError: null,
+          failedRequest: null
         });
       },
       
@@ -144,10 +233,56 @@ export const useAppStore = create<AppState>()(
         const session = memoryManager.getSession(sessionId);
         
         if (session) {
-          set({ currentSession: session });
+          set({ currentSession: session, focusedMessageId: null, contextInfo: null, chatError: null, failedRequest: null });
         }
       },
       
+      // Opens the session a search result belongs to and scrolls to the message
+      jumpToMessage: (sessionId: string, messageId?: string) => {
+        get().setCurrentSession(sessionId);
+        if (get().currentSession?.id === sessionId) {
+          set({ focusedMessageId: messageId || null });
+        }
+      },
+      
+      // Keyword search runs over localStorage; semantic search embeds the query, and any messages
+      // not yet in the index, with the configured embedding model
+      searchHistory: async (query: string, mode: SearchMode) => {
+        const memoryManager = MemoryManager.getInstance();
+        if (mode === 'keyword') {
+          return memoryManager.searchMessages(query);
+        }
+
+        const embedding = resolveEmbeddingConfig(get().config);
+        if (!embedding) {
+          throw new Error('Choose an embedding model under Settings → Semantic Search to search by meaning');
+        }
+        const provider = new RemoteLLMProvider(embedding);
+        try {
+          return await memoryManager.searchMessagesSemantic(
+            query,
+            embedding,
+            texts => provider.embed(texts),
+            (done, total) => set({ indexingProgress: done < total ? { done, total } : null })
+          );
+        } finally {
+          set({ indexingProgress: null });
+        }
+      },
+      
+      // Sampling overrides for the current chat; unset values use the configured ones
+      updateSessionSampling: (sampling: SamplingParams) => {
+        const { currentSession } = get();
+        if (!currentSession) return;
+
+        const memoryManager = MemoryManager.getInstance();
+        memoryManager.setSessionSampling(currentSession.id, pickSampling(sampling));
+        set({
+          currentSession: memoryManager.getSession(currentSession.id),
+          sessions: memoryManager.getAllSessions()
+        });
+      },
+      
       deleteSession: (sessionId: string) => {
         const memoryManager = MemoryManager.getInstance();
         memoryManager.deleteSession(sessionId);
@@ -168,6 +303,11 @@ export const useAppStore = create<AppState>()(
         const memoryManager = MemoryManager.getInstance();
         const sessions = memoryManager.getAllSessions();
         set({ sessions });
+
+        // User-defined providers must be registered before a saved config that uses one is shown
+        fetchCustomProviders().catch(error => {
+          console.warn('⚠️ Failed to load custom LLM providers:', error);
+        });
         
         // Check bridge connection on app load
         setTimeout(() => {
@@ -176,7 +316,7 @@ export const useAppStore = create<AppState>()(
       },
       
       // Message Actions
-      sendMessage: async (content: string, useTools: boolean = false) => {
+      sendMessage: async (content: string, useTools: boolean = false, attachments: ContentPart[] = [], responseFormat?: ResponseFormat) => {
         const { currentSession, llmManager, isLLMConfigured, createNewSession } = get();
         
         // Auto-create session if none exists
@@ -194,100 +334,51 @@ export const useAppStore = create<AppState>()(
         }
         
         const memoryManager = MemoryManager.getInstance();
+        const config = llmManager.getCurrentConfig();
+        let userMessageId: string | undefined;
         
         try {
-          set({ isLoading: true, error: null });
+          // Sending another message abandons a comparison that was never decided
+          set({ isLoading: true, error: null, chatError: null, failedRequest: null, comparison: null, focusedMessageId: null });
+
+          // Refuse attachments the chosen model cannot read before anything is stored
+          if (config && attachments.some(part => part.type === 'image') && supportsVision(config.provider, config.model) === false) {
+            throw createLLMError('invalid_request', `${config.model} is a text-only model and cannot read images. Choose a vision model or remove the image.`);
+          }
+          if (config && attachments.some(part => part.type === 'file' && part.mimeType === 'application/pdf') && !supportsPdf(config.provider)) {
+            throw createLLMError('invalid_request', `${config.provider} cannot read PDF files. Choose another provider or remove the PDF.`);
+          }
           
           // Add user message
-          memoryManager.addMessage(activeSession.id, {
+          userMessageId = memoryManager.addMessage(activeSession.id, {
             role: 'user',
             content,
+            parts: attachments.length > 0
+              ? [...attachments, ...(content ? [{ type: 'text' as const, text: content }] : [])]
+              : undefined,
             provider: llmManager.getCurrentConfig()?.provider,
             model: llmManager.getCurrentConfig()?.model
-          });
+          }).id;
           
-          // Get context messages for LLM
-          const contextMessages = memoryManager.getContextMessages(activeSession.id);
-          
-          // Prepare enhanced system prompt for MCP tools if requested
+          // Tool definitions reach the model natively, so the prompt only encourages using them
+          const { mcpTools } = get();
           let systemPrompt = '';
-          if (useTools) {
-            const tools = get().availableTools;
-            if (tools.length > 0) {
-              systemPrompt = `You are an intelligent AI assistant with access to ${tools.length} powerful MCP (Model Context Protocol) tools for real-time analysis and operations.
-
-## 🛠️ Core Capabilities
-**Available Tools:** ${tools.slice(0, 15).join(', ')}${tools.length > 15 ? `, and ${tools.length - 15} more specialized tools` : ''}
-
-## 📋 Operating Instructions
-
-### 🎯 Always Use Tools For:
-• **File Operations:** Reading, writing, creating, searching files and directories
-• **Project Analysis:** Code examination, dependency analysis, structure mapping
-• **Data Processing:** JSON parsing, CSV analysis, API interactions
-• **System Operations:** Process monitoring, disk usage, network diagnostics
-• **Web Operations:** Content scraping, HTTP requests, API calls
-• **Version Control:** Git operations, repository analysis
-• **Development Tools:** Docker operations, build processes
-
-### 📁 File Structure Analysis Protocol:
-When analyzing projects, follow this systematic approach:
-1. **Initial Scan:** Use \`file_list\` to map directory structure
-2. **Configuration Files:** Examine package.json, requirements.txt, Cargo.toml, etc.
-3. **Documentation:** Read README, CHANGELOG, documentation files
-4. **Source Code:** Analyze main entry points and key modules
-5. **Dependencies:** Map all external libraries and frameworks
-6. **Build System:** Identify build tools, scripts, deployment config
-
-### 💬 Response Formatting Standards:
-Structure ALL responses using this format:
-
-**🔍 [Operation Type]**
-*Brief overview of what was analyzed/performed*
-
-**📊 Key Findings:**
-• **Project Type:** [Web App / CLI Tool / Library / etc.]
-• **Primary Language:** [Language + version if detected]
-• **Framework/Platform:** [React, Express, Django, etc.]
-• **Purpose:** [What the project does]
-
-**🗂️ Project Structure:**
-\`\`\`
-project-root/
-├── src/           # Source code
-├── public/        # Static assets
-├── docs/          # Documentation
-└── config/        # Configuration
-\`\`\`
-
-**📦 Dependencies & Technologies:**
-• **Production:** [key runtime dependencies]
-• **Development:** [build tools, testing frameworks]
-• **Services:** [databases, APIs, external services]
-
-**⚡ Quick Insights:**
-• [Notable patterns or architectural decisions]
-• [Potential issues or recommendations]
-• [Performance considerations]
-
-### 🎨 Visual Enhancement Rules:
-- Use emojis contextually for headers and key points
-- Format file paths in code blocks with folder icons
-- Highlight important information with **bold text**
-- Use bullet points for lists and hierarchical information
-- Include relevant technical details from actual file analysis
-- Always provide actionable insights, not generic descriptions
-
-### ⚠️ Critical Requirements:
-- **NO GENERIC RESPONSES** - Always use tools to get real data
-- **BE SPECIFIC** - Reference actual files, line numbers, and content
-- **PROVIDE CONTEXT** - Explain what files/data you're examining
-- **ACTIONABLE INSIGHTS** - Give practical recommendations based on findings
-
-Remember: Your power comes from using MCP tools to provide real, accurate, and detailed analysis rather than generic AI responses.`;
-            }
+          if (useTools && mcpTools.length > 0) {
+            systemPrompt = 'You can call tools from the user\'s connected MCP (Model Context Protocol) servers. Use them whenever they let you answer with real data instead of guessing, and say which tool results your answer relies on.';
           }
           
+          // Fit the conversation into the model's context window, leaving room for the prompt, tools and reply
+          const currentConfig = llmManager.getCurrentConfig();
+          const { messages: contextMessages, info: contextInfo } = memoryManager.getContextMessages(activeSession.id, {
+            provider: currentConfig?.provider,
+            model: currentConfig?.model,
+            systemPrompt,
+            tools: useTools ? mcpTools : [],
+            maxTokens: activeSession.sampling?.maxTokens ?? currentConfig?.maxTokens,
+            includeReasoning: currentConfig?.reasoningInContext
+          });
+          set({ contextInfo });
+
           // Special handling: detect project analysis command
           const projectMatch = content.match(/^\s*Analyze\s+this\s+project:\s*(.+)$/i);
           if (projectMatch) {
@@ -311,19 +402,121 @@ Remember: Your power comes from using MCP tools to provide real, accurate, and d
               model: llmManager.getCurrentConfig()?.model
             });
           } else {
-            // Generate response from LLM
-            const assistantResponse = await llmManager.generateResponse(
-              contextMessages,
-              systemPrompt || undefined
-            );
-            
-            // Add assistant message
-            memoryManager.addMessage(activeSession.id, {
+            // Stream the response from the LLM, letting it call real MCP tools when enabled
+            const { mcpClientManager } = get();
+            const sessionId = activeSession.id;
+            const abortController = new AbortController();
+            const assistantMessage = memoryManager.addMessage(sessionId, {
               role: 'assistant',
-              content: assistantResponse,
+              content: '',
               provider: llmManager.getCurrentConfig()?.provider,
               model: llmManager.getCurrentConfig()?.model
             });
+
+            set({
+              abortController,
+              streamingMessageId: assistantMessage.id,
+              currentSession: memoryManager.getSession(sessionId)
+            });
+
+            // Deltas only touch in-memory state; the message is persisted once streaming ends
+            const patchStreamingMessage = (updates: Partial<Message>) => {
+              const session = get().currentSession;
+              if (!session || session.id !== sessionId) return;
+              set({
+                currentSession: {
+                  ...session,
+                  messages: session.messages.map(m => m.id === assistantMessage.id ? { ...m, ...updates } : m)
+                }
+              });
+            };
+
+            let streamedContent = '';
+            let reasoning = '';
+            let startNewThought = false;
+            let answeredBy: Pick<Message, 'provider' | 'model'> = {};
+            let usage: TokenUsage | undefined;
+            let startNewParagraph = false;
+            // Where the current round's text starts, so a repaired structured reply can replace it
+            let roundStart = 0;
+            let structured: StructuredOutput | undefined;
+            const toolInvocations: ToolInvocation[] = [];
+            let streamError: unknown = null;
+
+            try {
+              const stream = llmManager.streamResponse(await resolveAttachments(contextMessages), systemPrompt || undefined, {
+                signal: abortController.signal,
+                responseFormat,
+                sampling: activeSession.sampling,
+                ...(useTools && mcpTools.length > 0 ? {
+                  tools: mcpTools,
+                  executeTool: (call) => mcpClientManager.executeToolCall(call, mcpTools)
+                } : {})
+              });
+
+              for await (const delta of stream) {
+                if (delta.type === 'text') {
+                  streamedContent += (startNewParagraph && streamedContent ? '\n\n' : '') + delta.text;
+                  startNewParagraph = false;
+                } else if (delta.type === 'reasoning') {
+                  if (delta.text) {
+                    reasoning += (startNewThought && reasoning ? '\n\n' : '') + delta.text;
+                    startNewThought = false;
+                  }
+                } else if (delta.type === 'tool_result') {
+                  toolInvocations.push(delta.invocation);
+                  startNewParagraph = true;
+                  startNewThought = true;
+                  roundStart = streamedContent.length;
+                } else if (delta.type === 'repair') {
+                  console.warn('🔁 Reply did not match the JSON schema, asking the model to repair it:', delta.errors);
+                  streamedContent = streamedContent.slice(0, roundStart);
+                  startNewParagraph = roundStart > 0;
+                } else if (delta.type === 'structured') {
+                  structured = delta.output;
+                } else if (delta.type === 'provider') {
+                  // A fallback may have answered instead of the primary provider
+                  answeredBy = { provider: delta.provider, model: delta.model };
+                } else if (delta.type === 'usage') {
+                  usage = addUsage(usage, delta.usage);
+                }
+                patchStreamingMessage({
+                  ...answeredBy,
+                  usage,
+                  content: streamedContent,
+                  toolInvocations: toolInvocations.length ? [...toolInvocations] : undefined,
+                  structured,
+                  reasoning: reasoning || undefined
+                });
+              }
+            } catch (error) {
+              // A user-initiated stop keeps whatever text has arrived so far
+              if (!abortController.signal.aborted) {
+                streamError = error;
+              }
+            } finally {
+              if (streamError && !streamedContent && !reasoning && toolInvocations.length === 0) {
+                memoryManager.deleteMessage(sessionId, assistantMessage.id);
+              } else {
+                memoryManager.updateMessage(sessionId, assistantMessage.id, {
+                  ...answeredBy,
+                  usage,
+                  content: streamedContent,
+                  toolInvocations: toolInvocations.length ? toolInvocations : undefined,
+                  structured,
+                  reasoning: reasoning || undefined
+                });
+              }
+              set({
+                abortController: null,
+                streamingMessageId: null,
+                currentSession: memoryManager.getSession(sessionId)
+              });
+            }
+
+            if (streamError) {
+              throw streamError;
+            }
           }
           
           // Update session in state
@@ -338,12 +531,53 @@ Remember: Your power comes from using MCP tools to provide real, accurate, and d
           
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Failed to send message';
-          set({ error: errorMessage });
+          set({
+            error: errorMessage,
+            chatError: {
+              message: errorMessage,
+              kind: error instanceof LLMError ? error.kind : 'unknown',
+              provider: config?.provider,
+              model: config?.model
+            },
+            failedRequest: { sessionId: activeSession.id, content, useTools, attachments, responseFormat, userMessageId }
+          });
           throw error;
         } finally {
           set({ isLoading: false });
         }
       },
+
+      retryLastMessage: async () => {
+        const { failedRequest, currentSession } = get();
+        if (!failedRequest || currentSession?.id !== failedRequest.sessionId) return;
+
+        // sendMessage stores the user message again, so drop the one from the failed attempt
+        if (failedRequest.userMessageId) {
+          MemoryManager.getInstance().deleteMessage(failedRequest.sessionId, failedRequest.userMessageId);
+        }
+        await get().sendMessage(failedRequest.content, failedRequest.useTools, failedRequest.attachments, failedRequest.responseFormat);
+      },
+
+      // Frees context after a context-length error by dropping the older half of the conversation
+      trimHistory: () => {
+        const { currentSession, failedRequest } = get();
+        if (!currentSession) return;
+
+        const memoryManager = MemoryManager.getInstance();
+        const keep = Math.max(2, Math.floor(currentSession.messages.length / 2));
+        const removed = memoryManager.trimMessages(currentSession.id, keep);
+        const session = memoryManager.getSession(currentSession.id);
+        const trimmedFailedMessage = failedRequest?.userMessageId && !session?.messages.some(m => m.id === failedRequest.userMessageId);
+        console.log(`✂️ Trimmed ${removed} older messages from the conversation`);
+
+        set({
+          currentSession: session,
+          sessions: memoryManager.getAllSessions(),
+          contextInfo: null,
+          // The failed message is re-added on retry, so it no longer needs replacing if it was trimmed
+          failedRequest: failedRequest && trimmedFailedMessage ? { ...failedRequest, userMessageId: undefined } : failedRequest
+        });
+      },
       
       addMessage: (message: Omit<Message, 'id' | 'timestamp'>) => {
         const { currentSession } = get();
@@ -361,6 +595,139 @@ Remember: Your power comes from using MCP tools to provide real, accurate, and d
         set({ sessions });
       },
       
+      stopGeneration: () => {
+        get().abortController?.abort();
+      },
+
+      // Streams the same conversation to every target at once, each with its own context window
+      compareModels: async (content: string, targets: LLMConfig[], attachments: ContentPart[] = []) => {
+        if (targets.length < 2 || targets.length > MAX_COMPARED_MODELS) {
+          throw new Error(`Pick between 2 and ${MAX_COMPARED_MODELS} models to compare`);
+        }
+
+        let activeSession = get().currentSession;
+        if (!activeSession) {
+          get().createNewSession();
+          activeSession = get().currentSession;
+          if (!activeSession) {
+            throw new Error('Failed to create new session');
+          }
+        }
+
+        const memoryManager = MemoryManager.getInstance();
+        const sessionId = activeSession.id;
+        const sampling = activeSession.sampling;
+        const primary = get().config?.llm;
+        const abortController = new AbortController();
+
+        const userMessageId = memoryManager.addMessage(sessionId, {
+          role: 'user',
+          content,
+          parts: attachments.length > 0
+            ? [...attachments, ...(content ? [{ type: 'text' as const, text: content }] : [])]
+            : undefined
+        }).id;
+        const replies: ModelReply[] = targets.map(target => ({ id: uuidv4(), provider: target.provider, model: target.model, content: '' }));
+
+        set({
+          isLoading: true,
+          error: null,
+          chatError: null,
+          failedRequest: null,
+          abortController,
+          comparison: { sessionId, userMessageId, replies },
+          currentSession: memoryManager.getSession(sessionId)
+        });
+
+        const patchReply = (replyId: string, updates: Partial<ModelReply>) => {
+          const { comparison } = get();
+          if (!comparison || comparison.sessionId !== sessionId) return;
+          set({
+            comparison: {
+              ...comparison,
+              replies: comparison.replies.map(reply => reply.id === replyId ? { ...reply, ...updates } : reply)
+            }
+          });
+        };
+
+        const runTarget = async (target: LLMConfig, reply: ModelReply) => {
+          // Every model gets the primary's sampling and thinking settings so the answers are comparable
+          const provider = new RemoteLLMProvider({
+            ...pickSampling(primary || {}),
+            thinkingBudget: primary?.thinkingBudget,
+            ...target,
+            // A self-hosted server picked for the primary is the one meant here too
+            baseUrl: target.baseUrl ?? (target.provider === primary?.provider ? primary.baseUrl : undefined)
+          });
+          const { messages } = memoryManager.getContextMessages(sessionId, {
+            provider: target.provider,
+            model: target.model,
+            maxTokens: sampling?.maxTokens ?? primary?.maxTokens,
+            includeReasoning: primary?.reasoningInContext
+          });
+          const startedAt = Date.now();
+          let replyContent = '';
+          let reasoning = '';
+          let usage: TokenUsage | undefined;
+
+          try {
+            for await (const delta of provider.streamResponse(await resolveAttachments(messages), undefined, {
+              signal: abortController.signal,
+              sampling
+            })) {
+              if (delta.type === 'text') {
+                replyContent += delta.text;
+              } else if (delta.type === 'reasoning') {
+                reasoning += delta.text;
+              } else if (delta.type === 'usage') {
+                usage = addUsage(usage, delta.usage);
+              }
+              patchReply(reply.id, { content: replyContent, reasoning: reasoning || undefined, usage, latencyMs: Date.now() - startedAt });
+            }
+            patchReply(reply.id, { latencyMs: Date.now() - startedAt });
+          } catch (error) {
+            // A stopped comparison keeps whatever each model had written
+            if (!abortController.signal.aborted) {
+              console.error(`❌ Comparison request to ${target.provider}/${target.model} failed:`, error);
+              patchReply(reply.id, { error: describeError(error), latencyMs: Date.now() - startedAt });
+            }
+          }
+        };
+
+        try {
+          await Promise.all(targets.map((target, index) => runTarget(target, replies[index])));
+        } finally {
+          set({ isLoading: false, abortController: null });
+        }
+      },
+
+      // The winner becomes the session's assistant message; the other answers are kept on it as alternates
+      pickComparisonWinner: (replyId: string) => {
+        const { comparison } = get();
+        const winner = comparison?.replies.find(reply => reply.id === replyId);
+        if (!comparison || !winner || winner.error) return;
+
+        const memoryManager = MemoryManager.getInstance();
+        memoryManager.addMessage(comparison.sessionId, {
+          role: 'assistant',
+          content: winner.content,
+          reasoning: winner.reasoning,
+          provider: winner.provider,
+          model: winner.model,
+          usage: winner.usage,
+          alternates: comparison.replies.filter(reply => reply.id !== replyId)
+        });
+        set({
+          comparison: null,
+          currentSession: memoryManager.getSession(comparison.sessionId),
+          sessions: memoryManager.getAllSessions()
+        });
+      },
+
+      discardComparison: () => {
+        set({ comparison: null });
+      },
+      
       // MCP Actions
       addMCPServer: async (config: MCPServerConfig) => {
         const { mcpClientManager } = get();
@@ -374,8 +741,8 @@ Remember: Your power comes from using MCP tools to provide real, accurate, and d
           throw new Error('Command is required for stdio transport');
         }
         
-        if ((config.transport === 'sse' || config.transport === 'websocket') && !config.url) {
-          throw new Error('URL is required for SSE/WebSocket transport');
+        if (config.transport !== 'stdio' && !config.url) {
+          throw new Error('URL is required for SSE, Streamable HTTP and WebSocket transports');
         }
         
         // Check for duplicate server IDs
@@ -434,48 +801,147 @@ Remember: Your power comes from using MCP tools to provide real, accurate, and d
         await get().refreshMCPTools();
       },
       
+      // Connections do not survive a page reload; reopens the servers that were connected before it
+      reconnectMCPServers: async () => {
+        const { mcpServers, mcpClientManager } = get();
+        const pending = mcpServers.filter(server => server.isConnected && !mcpClientManager.getClient(server.id));
+        if (pending.length === 0) return;
+        
+        const failed: string[] = [];
+        await Promise.all(pending.map(async server => {
+          try {
+            await mcpClientManager.addServer(server);
+          } catch (error) {
+            console.error(`Failed to reconnect MCP server ${server.name}:`, error);
+            failed.push(server.id);
+          }
+        }));
+        
+        set({
+          mcpServers: get().mcpServers.map(server => failed.includes(server.id) ? { ...server, isConnected: false } : server)
+        });
+        await get().refreshMCPTools();
+      },
+      
       refreshMCPTools: async () => {
-        try {
-          const { mcpServers, mcpClientManager } = get();
-          
-          // Get tools from all connected servers
-          let totalTools: string[] = [];
-          
-          for (const server of mcpServers) {
-            if (server.isConnected) {
-              try {
-                // Simulate getting tools from MCP server
-                // In a real implementation, this would call the MCP client
-                const serverTools = await mcpClientManager.getServerTools(server.id);
-                totalTools = [...totalTools, ...serverTools];
-              } catch (error) {
-                console.error(`Failed to get tools from server ${server.name}:`, error);
-              }
+        const { mcpServers, mcpClientManager } = get();
+        const toolDefinitions: MCPTool[] = [];
+        const failures: string[] = [];
+        
+        // Only tools a connected server actually reported are offered to the model; servers without
+        // a client were never opened in this page and have nothing to report
+        for (const server of mcpServers) {
+          if (server.isConnected && mcpClientManager.getClient(server.id)) {
+            try {
+              toolDefinitions.push(...await mcpClientManager.getServerToolDefinitions(server.id));
+            } catch (error) {
+              console.error(`Failed to get tool definitions from server ${server.name}:`, error);
+              failures.push(`${server.name}: ${error instanceof Error ? error.message : 'tool discovery failed'}`);
             }
           }
-          
-          // For demo purposes, simulate some tools if servers are connected
-          if (mcpServers.some(s => s.isConnected) && totalTools.length === 0) {
-            totalTools = [
-              'file_read', 'file_write', 'file_list', 'dir_create', 'search_files',
-              'web_scrape', 'api_call', 'data_analysis', 'image_process', 'pdf_extract',
-              'json_parse', 'csv_read', 'excel_read', 'sql_query', 'http_request',
-              'text_summarize', 'translate', 'sentiment_analysis', 'keyword_extract', 'regex_match',
-              'math_calculate', 'date_format', 'string_process', 'hash_generate', 'encode_decode',
-              'git_status', 'git_commit', 'git_push', 'git_pull', 'git_branch',
-              'docker_run', 'docker_build', 'process_list', 'system_info', 'disk_usage',
-              'network_ping', 'port_scan', 'dns_lookup', 'ssl_check', 'url_validate',
-              'email_send', 'sms_send'
-            ];
+        }
+        
+        set({
+          availableTools: toolDefinitions.map(tool => tool.name),
+          mcpTools: toolDefinitions,
+          mcpToolsError: failures.length > 0 ? failures.join('; ') : null
+        });
+      },
+      
+      loadMCPResources: async (serverId: string) => {
+        return await get().mcpClientManager.getServerResources(serverId);
+      },
+
+      // Reads the resource now, so the message carries its contents as they were when attached
+      attachMCPResource: async (serverId: string, uri: string, name: string) => {
+        const contents = await get().mcpClientManager.readResource(serverId, uri);
+        if (contents.length === 0) {
+          throw new Error(`${name} is empty`);
+        }
+        const parts = await createResourceAttachmentParts(name, contents);
+        set({ queuedAttachments: [...get().queuedAttachments, ...parts] });
+      },
+
+      takeQueuedAttachments: () => {
+        const parts = get().queuedAttachments;
+        if (parts.length > 0) {
+          set({ queuedAttachments: [] });
+        }
+        return parts;
+      },
+      
+      // Prompts from every connected server; one failing server does not hide the others'
+      loadMCPPrompts: async () => {
+        const { mcpServers, mcpClientManager } = get();
+        const listings = await Promise.all(mcpServers.filter(server => server.isConnected).map(async server => {
+          try {
+            return await mcpClientManager.getServerPrompts(server.id);
+          } catch (error) {
+            console.error(`Failed to get prompts from server ${server.name}:`, error);
+            return [];
           }
-          
-          set({ availableTools: totalTools });
-        } catch (error) {
-          console.error('Failed to refresh MCP tools:', error);
-          set({ availableTools: [] });
+        }));
+        return listings.flat();
+      },
+
+      // Adds the rendered prompt to the conversation; when it ends on a user turn, that turn is sent for a reply
+      runMCPPrompt: async (prompt: MCPPrompt, args: Record<string, string>, useTools: boolean = false) => {
+        if (!prompt.serverId) {
+          throw new Error(`Prompt ${prompt.name} does not belong to a server`);
+        }
+        const { messages } = await get().mcpClientManager.getPrompt(prompt.serverId, prompt.name, args);
+        const turns = await toPromptTurns(messages);
+        if (turns.length === 0) {
+          throw new Error(`Prompt ${prompt.name} has no messages`);
+        }
+
+        if (!get().currentSession) {
+          get().createNewSession();
+        }
+        const last = turns[turns.length - 1];
+        const context = last.role === 'user' ? turns.slice(0, -1) : turns;
+        context.forEach(turn => get().addMessage({
+          role: turn.role,
+          content: turn.content,
+          parts: turn.attachments.length > 0
+            ? [...turn.attachments, ...(turn.content ? [{ type: 'text' as const, text: turn.content }] : [])]
+            : undefined
+        }));
+
+        if (last.role === 'user') {
+          await get().sendMessage(last.content, useTools, last.attachments);
         }
       },
       
+      // Follows the status feed until the returned function is called
+      watchMCPServerHealth: () => {
+        const source = new EventSource('/api/mcp/status');
+        // Every (re)connection starts with the current state of each server, replacing what was known
+        source.onopen = () => set({ mcpServerHealth: {}, mcpServerHealthLive: true });
+        source.onmessage = (event) => {
+          let health: MCPServerHealth;
+          try {
+            health = JSON.parse(event.data);
+          } catch {
+            console.warn('⚠️ Skipping malformed MCP status event:', event.data);
+            return;
+          }
+          if (!health?.id) return;
+          const previous = get().mcpServerHealth[health.id];
+          set({ mcpServerHealth: { ...get().mcpServerHealth, [health.id]: health } });
+          // A restarted server may come back with different tools
+          if (health.status === 'ready' && previous && previous.status !== 'ready' && previous.status !== 'degraded' && health.restarts > 0) {
+            get().refreshMCPTools();
+          }
+        };
+        // EventSource reconnects by itself; until it does the statuses shown may be stale
+        source.onerror = () => set({ mcpServerHealthLive: false });
+        return () => {
+          source.close();
+          set({ mcpServerHealthLive: false });
+        };
+      },
+      
       // Bridge Actions
       checkBridgeConnection: async () => {
         const { bridgeClient } = get();
@@ -497,13 +963,20 @@ Remember: Your power comes from using MCP tools to provide real, accurate, and d
       },
       
       setError: (error: string | null) => {
-        set({ error });
+        set(error ? { error } : { error: null, chatError: null, failedRequest: null });
       }
     }),
     {
       name: 'mcp-app-storage',
       partialize: (state) => ({
-        config: state.config,
+        // Never persist API keys in the browser; they live on the server
+        config: state.config?.llm
+          ? {
+              ...state.config,
+              llm: { ...state.config.llm, apiKey: undefined },
+              llmFallbacks: state.config.llmFallbacks?.map(fallback => ({ ...fallback, apiKey: undefined }))
+            }
+          : state.config,
         mcpServers: state.mcpServers
       })
     }
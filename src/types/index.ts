@@ -1,38 +1,297 @@
+import type { ProviderId } from '@/lib/llm/registry';
+
+export type { ProviderId };
+
 export interface Message {
   id: string;
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
   timestamp: Date;
   model?: string;
   provider?: string;
+
+  // Tool calling: wire-level fields used inside a single tool-calling loop
+  toolCalls?: ToolCall[];
+  toolResults?: ToolResult[];
+
+  // Tool calls that were executed while producing this (final) assistant message
+  toolInvocations?: ToolInvocation[];
+
+  // Tokens billed for this assistant message, summed over every tool-calling round
+  usage?: TokenUsage;
+
+  // Multimodal content (text plus image/file attachments); `content` still holds the text
+  parts?: ContentPart[];
+
+  // The parsed reply when the request asked for JSON matching a schema
+  structured?: StructuredOutput;
+
+  // What a reasoning model thought before answering; left out of later requests unless the config opts in
+  reasoning?: string;
+  // Anthropic's signature over that thinking, needed to send it back within a tool-calling loop
+  reasoningSignature?: string;
+
+  // The other models' answers when this one was picked as the winner of a comparison
+  alternates?: ModelReply[];
+}
+
+// One model's answer to a message sent to several models side by side
+export interface ModelReply {
+  id: string;
+  provider: ProviderId;
+  model: string;
+  content: string;
+  reasoning?: string;
+  usage?: TokenUsage;
+  // From sending the request to the end of the reply (or to the latest delta while streaming)
+  latencyMs?: number;
+  error?: string;
+}
+
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | ({ type: 'image' } & AttachmentRef)
+  | ({ type: 'file' } & AttachmentRef);
+
+export interface AttachmentRef {
+  // Key into the browser's attachment store; sessions only persist this reference
+  attachmentId: string;
+  mimeType: string;
+  name: string;
+  size: number;
+  // Base64 payload, filled in only while the message is on its way to a provider
+  data?: string;
+}
+
+export interface TokenUsage {
+  // All input tokens, including any served from or written to the prompt cache
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+// A model as reported by a provider's listing API (or the static catalog when offline)
+export interface ModelInfo {
+  id: string;
+  name?: string;
+  contextWindow?: number;
+  pricing?: ModelPricing;
+  capabilities?: {
+    vision?: boolean;
+    tools?: boolean;
+  };
+}
+
+// Aggregated token spend, as reported by MemoryManager.getStats
+export interface UsageTotals {
+  messages: number;
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  // USD, over the messages whose model has a known price
+  cost: number;
+  unpricedMessages: number;
+}
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ToolResult {
+  toolCallId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+}
+
+export interface ToolInvocation extends ToolCall {
+  result: string;
+  isError?: boolean;
+}
+
+// Asks for a reply that is a JSON value conforming to a JSON Schema
+export interface ResponseFormat {
+  type: 'json_schema';
+  // Letters, digits, underscores and dashes (OpenAI's rule for schema names)
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface StructuredOutput {
+  schemaName: string;
+  // Undefined when the reply could not be parsed as JSON
+  data?: unknown;
+  // Schema violations still present after the repair attempt; empty when the reply is valid
+  errors: string[];
+}
+
+export interface LLMResponse {
+  content: string;
+  toolCalls?: ToolCall[];
+  toolInvocations?: ToolInvocation[];
+  // Which provider/model in the failover chain actually answered
+  provider?: string;
+  model?: string;
+  usage?: TokenUsage;
+  structured?: StructuredOutput;
+  reasoning?: string;
+  reasoningSignature?: string;
 }
 
+export type LLMStreamDelta =
+  | { type: 'text'; text: string }
+  // Thinking text as it arrives; Anthropic ends a thinking block with its signature and no text
+  | { type: 'reasoning'; text: string; signature?: string }
+  | { type: 'tool_call'; call: ToolCall }
+  | { type: 'tool_result'; invocation: ToolInvocation }
+  | { type: 'provider'; provider: string; model: string }
+  | { type: 'usage'; usage: TokenUsage }
+  // The reply broke the schema and is being regenerated; text since the last tool round is void
+  | { type: 'repair'; errors: string[] }
+  | { type: 'structured'; output: StructuredOutput };
+
 export interface ChatSession {
   id: string;
   title: string;
   messages: Message[];
   createdAt: Date;
   updatedAt: Date;
+  // Sampling settings for this chat only, each one replacing the configured value when set
+  sampling?: SamplingParams;
+}
+
+// Wire protocol a provider speaks, which picks the SDK adapter used on the server;
+// 'replay' serves recorded fixtures instead of calling anything
+export type ProviderApi = 'openai' | 'anthropic' | 'gemini' | 'huggingface' | 'replay';
+
+// How the API key is sent: as a bearer token, in the named header, or not at all
+export type ProviderAuthStyle = 'bearer' | 'x-api-key' | 'api-key' | 'x-goog-api-key' | 'none';
+
+export interface ProviderCapabilities {
+  tools: boolean;
+  // A pattern over model ids when only some models accept images; unset when it cannot be told from the id
+  vision?: boolean | RegExp;
+  pdf: boolean;
+  // Accepts top_k, which only some OpenAI-style APIs do
+  topK?: boolean;
+  // How an OpenAI-style API is helped to cache repeated prompt prefixes: with a prompt_cache_key that sends
+  // requests sharing a prefix to the same cache ('key'), or with Anthropic-style cache_control marks on
+  // message parts ('breakpoints'). Others cache automatically or not at all
+  promptCache?: 'key' | 'breakpoints';
 }
 
-export interface LLMProvider {
-  id: 'openai' | 'anthropic' | 'gemini' | 'openrouter' | 'groq' | 'together' | 'huggingface';
+// Everything needed to talk to a provider and describe its models
+export interface ProviderSpec {
   name: string;
-  models: string[];
-  requiresApiKey: boolean;
+  api: ProviderApi;
   baseUrl?: string;
+  // The endpoint can be changed per config (self-hosted servers)
+  customBaseUrl?: boolean;
+  authStyle: ProviderAuthStyle;
+  requiresApiKey: boolean;
+  models: string[];
+  capabilities: ProviderCapabilities;
+  // Per-model prices; models missing here fall back to defaultPricing, or have no known cost
+  pricing?: Record<string, ModelPricing>;
+  defaultPricing?: ModelPricing;
+  // Per-model context windows in tokens, with a fallback for models not listed
+  contextWindows?: Record<string, number>;
+  defaultContextWindow?: number;
+  // How many more tokens this provider's tokenizer needs than OpenAI's for the same text
+  tokenFactor?: number;
+  // Models that turn text into vectors for semantic search; the first is the default
+  embeddingModels?: string[];
 }
 
-export interface LLMConfig {
-  provider: 'openai' | 'anthropic' | 'gemini' | 'openrouter' | 'groq' | 'together' | 'huggingface';
-  model: string;
-  apiKey: string;
+export interface ProviderDescriptor extends ProviderSpec {
+  id: ProviderId;
+  // Added from settings rather than built in
+  userDefined?: boolean;
+}
+
+// Unset values use the provider's default; parameters a provider does not support are not sent
+export interface SamplingParams {
   temperature?: number;
   maxTokens?: number;
+  topP?: number;
+  topK?: number;
+  stop?: string[];
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  seed?: number;
+}
+
+export interface LLMConfig extends SamplingParams {
+  provider: ProviderId;
+  model: string;
+  // Only ever populated server-side; the browser never holds provider keys
+  apiKey?: string;
+  // Endpoint for self-hosted OpenAI-compatible servers (Ollama, llama.cpp, vLLM, LM Studio)
   baseUrl?: string;
+  // Tokens the model may spend thinking: turns on Anthropic extended thinking, caps Gemini 2.5's
+  thinkingBudget?: number;
+  // Send the reasoning of earlier replies back to the model with the conversation
+  reasoningInContext?: boolean;
+}
+
+// Outcome of checking a provider from settings: can the server reach it, is the key accepted,
+// and can the selected model do what the chat needs
+export interface ProviderDiagnostics {
+  provider: ProviderId;
+  providerName: string;
+  model: string;
+  // Where the server sends requests for this provider
+  endpoint?: string;
+  keySource: 'env' | 'stored' | 'none';
+  // 'unknown' when the provider could not be reached to ask
+  auth: 'ok' | 'rejected' | 'missing' | 'not_required' | 'unknown';
+  reachable: boolean;
+  // Round trip of the access check
+  latencyMs?: number;
+  models?: string[];
+  // Whether the provider lists the selected model; unset when the listing failed or is empty
+  modelListed?: boolean;
+  supportsTools: boolean;
+  supportsVision?: boolean;
+  supportsPdf: boolean;
+  // The provider's own error, from the access check or the model listing
+  error?: { message: string; kind: LLMErrorKind; status?: number };
+  checkedAt: string;
 }
 
-export type MCPTransportType = 'stdio' | 'sse' | 'websocket';
+// Model used to index chat history for semantic search
+export type EmbeddingConfig = Pick<LLMConfig, 'provider' | 'model' | 'baseUrl'>;
+
+export type SearchMode = 'keyword' | 'semantic';
+
+// One message (or a session title) matching a history search
+export interface MessageSearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  // Unset when only the title matched
+  messageId?: string;
+  role?: Message['role'];
+  timestamp: Date;
+  snippet: string;
+  // [start, end) ranges within the snippet to highlight
+  highlights: Array<[number, number]>;
+  // Higher is better; cosine similarity in semantic mode
+  score: number;
+}
+
+export type MCPTransportType = 'stdio' | 'sse' | 'streamable-http' | 'websocket';
 
 export interface MCPServerConfig {
   id: string;
@@ -44,7 +303,7 @@ export interface MCPServerConfig {
   args?: string[];
   env?: Record<string, string>;
   
-  // SSE/WebSocket transport fields
+  // SSE/Streamable HTTP/WebSocket transport fields
   url?: string;
   headers?: Record<string, string>;
   
@@ -59,6 +318,7 @@ export interface MCPTool {
   name: string;
   description: string;
   inputSchema: Record<string, unknown>;
+  serverId?: string;
 }
 
 export interface MCPResource {
@@ -66,10 +326,106 @@ export interface MCPResource {
   name: string;
   description?: string;
   mimeType?: string;
+  serverId?: string;
+}
+
+// A parameterised resource, e.g. `file:///{path}`; filling in the variables gives a readable URI
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+  serverId?: string;
+}
+
+// One item of a read resource: text, or binary data as base64 in `blob`
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+export type MCPServerStatus = 'starting' | 'ready' | 'degraded' | 'crashed' | 'stopped';
+
+// A server's live state as seen by the server-side supervisor
+export interface MCPServerHealth {
+  id: string;
+  name: string;
+  transport: MCPTransportType;
+  // degraded: connected but missing pings; crashed: gone, restarting unless nextRestartAt is unset
+  status: MCPServerStatus;
+  pid?: number;
+  restarts: number;
+  pingMs?: number;
+  lastError?: string;
+  nextRestartAt?: string;
+  updatedAt: string;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+// A reusable prompt published by an MCP server, offered as a slash command in the chat input
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+  serverId?: string;
+}
+
+export type MCPPromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'image' | 'audio'; data: string; mimeType: string }
+  | { type: 'resource'; resource: MCPResourceContents }
+  | { type: 'resource_link'; uri: string; name: string };
+
+// One message of a prompt rendered by the server with the user's arguments
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPPromptContent;
+}
+
+// What was actually sent to the model for the latest request
+export interface ContextWindowInfo {
+  contextWindow: number;
+  estimatedTokens: number;
+  includedMessages: number;
+  truncatedMessages: number;
+}
+
+// What went wrong with a model request, in terms the UI can suggest a fix for
+export type LLMErrorKind =
+  | 'auth'
+  | 'rate_limit'
+  | 'quota'
+  | 'context_length'
+  | 'content_filter'
+  | 'model_not_found'
+  | 'network'
+  | 'timeout'
+  | 'invalid_request'
+  | 'server_error'
+  | 'unknown';
+
+// A failed chat request as shown in the error banner
+export interface ChatError {
+  message: string;
+  kind: LLMErrorKind;
+  provider?: string;
+  model?: string;
 }
 
 export interface AppConfig {
   llm: LLMConfig;
+  // Tried in order when the primary provider keeps failing
+  llmFallbacks?: LLMConfig[];
+  // Unset uses the chat provider's default embedding model, when it has one
+  embedding?: EmbeddingConfig;
   mcpServers: MCPServerConfig[];
   activeSessionId?: string;
 }